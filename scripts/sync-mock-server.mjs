@@ -0,0 +1,89 @@
+// A throwaway sync server for trying sync locally, also used by the sync
+// tests. Everything is kept in memory and lost when it stops.
+//
+//   node scripts/sync-mock-server.mjs [port] [token]
+//
+// REST endpoint: http://localhost:8787/api (Bearer token checked if one is given)
+// WebDAV folder: http://localhost:8787/dav/ (any user name and password)
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const etagOf = (body) => `"${createHash('sha1').update(body).digest('hex')}"`;
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, MKCOL, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+const send = (res, status, headers = {}, body) => {
+  res.writeHead(status, { ...cors, ...headers });
+  res.end(body);
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const parent = (path) => path.slice(0, path.lastIndexOf('/') + 1);
+
+/**
+ * An HTTP server holding one REST endpoint and one WebDAV folder, both
+ * empty. `log` prints every write.
+ */
+export const createSyncServer = ({ token = '', log = false } = {}) => {
+  /** @type {Map<string, { body: Buffer, type: string, etag: string }>} */
+  const files = new Map();
+  const folders = new Set(['/dav/']);
+
+  return createServer(async (req, res) => {
+    const path = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const rest = path.startsWith('/api/');
+    if (!rest && !path.startsWith('/dav/')) return send(res, 404);
+    if (rest && token && req.headers.authorization !== `Bearer ${token}`) return send(res, 401);
+    if (!rest && !req.headers.authorization?.startsWith('Basic ')) {
+      return send(res, 401, { 'WWW-Authenticate': 'Basic realm="geo-note"' });
+    }
+
+    const file = files.get(path);
+    if (req.method === 'GET') {
+      if (!file) return send(res, 404);
+      return send(res, 200, { 'Content-Type': file.type, ETag: file.etag }, file.body);
+    }
+    if (req.method === 'MKCOL') {
+      if (folders.has(`${path.replace(/\/$/, '')}/`)) return send(res, 405);
+      folders.add(`${path.replace(/\/$/, '')}/`);
+      return send(res, 201);
+    }
+    if (req.method === 'PUT') {
+      const ifMatch = req.headers['if-match'];
+      const ifNoneMatch = req.headers['if-none-match'];
+      if ((ifMatch && ifMatch !== file?.etag) || (ifNoneMatch === '*' && file)) return send(res, 412);
+      // Like a real WebDAV server, files can only go in folders that exist.
+      if (!rest && !folders.has(parent(path))) return send(res, 409);
+      const body = await readBody(req);
+      const etag = etagOf(body);
+      files.set(path, { body, type: req.headers['content-type'] ?? 'application/octet-stream', etag });
+      if (log) console.log(`${req.method} ${path} (${body.length} bytes)`);
+      return send(res, file ? 204 : 201, { ETag: etag });
+    }
+    send(res, 405);
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.argv[2] ?? 8787);
+  const token = process.argv[3] ?? '';
+  createSyncServer({ token, log: true }).listen(port, () => {
+    console.log(`Sync mock server on http://localhost:${port}`);
+    console.log(`  REST endpoint: http://localhost:${port}/api${token ? ` (token: ${token})` : ''}`);
+    console.log(`  WebDAV folder: http://localhost:${port}/dav/`);
+  });
+}
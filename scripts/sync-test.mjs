@@ -0,0 +1,143 @@
+// Syncs two devices through the mock server, over REST and over WebDAV.
+// Each device is its own copy of the app's modules with its own IndexedDB.
+//
+//   node scripts/sync-test.mjs
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { createServer as createViteServer } from 'vite';
+import { createSyncServer } from './sync-mock-server.mjs';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+
+let server;
+let vite;
+let baseUrl;
+
+before(async () => {
+  server = createSyncServer({ token: 'secret' });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+  vite = await createViteServer({
+    root,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+    resolve: { alias: { '@': `${root}src` } },
+  });
+});
+
+after(async () => {
+  await vite.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// Loading the modules afresh gives the device its own storage, and opening
+// the database right away ties it to the device's own IndexedDB.
+const createDevice = async (config) => {
+  globalThis.indexedDB = new IDBFactory();
+  vite.moduleGraph.invalidateAll();
+  const storage = await vite.ssrLoadModule('/src/lib/storage.ts');
+  const sync = await vite.ssrLoadModule('/src/lib/sync.ts');
+  const { createAdapter } = await vite.ssrLoadModule('/src/lib/sync-adapters.ts');
+  const { readJSONNote } = await vite.ssrLoadModule('/src/lib/formats.ts');
+  await storage.getLastId();
+  const adapter = createAdapter(config);
+  return {
+    storage,
+    adapter,
+    sync: () => sync.syncNotes(adapter),
+    resolve: (resolutions) => sync.resolveConflicts(adapter, resolutions),
+    add: async (id, content, date) => storage.putNotes([readJSONNote({ id, content, date }, () => false)], id),
+    edit: (id, content, updated) => storage.updateNote(id, (note) => ({ ...note, content, updated })),
+    contents: async () => (await storage.getNotes()).map((note) => `${note.id}: ${note.content}`).sort(),
+  };
+};
+
+const backends = [
+  { backend: 'rest', url: '/api', username: '', password: '', token: 'secret' },
+  { backend: 'webdav', url: '/dav/notes', username: 'me', password: 'secret', token: '' },
+];
+
+for (const backend of backends) {
+  describe(`sync over ${backend.backend}`, () => {
+    const start = Date.now() - 60 * 60 * 1000;
+    let a;
+    let b;
+
+    before(async () => {
+      const config = { ...backend, url: baseUrl + backend.url, auto: false };
+      a = await createDevice(config);
+      b = await createDevice(config);
+    });
+
+    test('sends notes from one device to the other', async () => {
+      await a.add(1, 'Trailhead', start);
+      await a.add(2, 'Bridge', start + 1000);
+      assert.equal((await a.sync()).sent, 2);
+      const result = await b.sync();
+      assert.equal(result.received, 2);
+      assert.deepEqual(await b.contents(), ['1: Trailhead', '2: Bridge']);
+      assert.equal((await a.sync()).received, 0);
+    });
+
+    test('renumbers a note given an id the other device already used', async () => {
+      await a.add(3, 'Summit', start + 2000);
+      await b.add(3, 'Hut', start + 3000);
+      await a.sync();
+      assert.equal((await b.sync()).renumbered, 1);
+      await a.sync();
+      assert.deepEqual(await a.contents(), await b.contents());
+      assert.deepEqual(await a.contents(), ['1: Trailhead', '2: Bridge', '3: Summit', '4: Hut']);
+    });
+
+    test('deletes a note on the other device', async () => {
+      await b.storage.deleteNote(2);
+      await b.sync();
+      assert.equal((await a.sync()).received, 1);
+      assert.deepEqual(await a.contents(), ['1: Trailhead', '3: Summit', '4: Hut']);
+      assert.deepEqual((await a.storage.getTrash()).map((note) => note.id), [2]);
+    });
+
+    test('takes an edit made on one side only', async () => {
+      await a.edit(1, 'Trailhead, car park full', start + 10000);
+      await a.sync();
+      await b.sync();
+      assert.deepEqual(await b.contents(), await a.contents());
+    });
+
+    test('reports a note edited on both sides as a conflict', async () => {
+      await a.edit(3, 'Summit, windy', start + 20000);
+      await b.edit(3, 'Summit, foggy', start + 21000);
+      await a.sync();
+      const { conflicts } = await b.sync();
+      assert.equal(conflicts.length, 1);
+      assert.equal(conflicts[0].local.content, 'Summit, foggy');
+      assert.equal(conflicts[0].remote.content, 'Summit, windy');
+
+      await b.resolve([{ conflict: conflicts[0], choice: 'local' }]);
+      assert.deepEqual((await b.sync()).conflicts, []);
+      await a.sync();
+      assert.deepEqual(await a.contents(), ['1: Trailhead, car park full', '3: Summit, foggy', '4: Hut']);
+      assert.deepEqual(await b.contents(), await a.contents());
+    });
+
+    test('refuses to write over a document changed since it was read', async () => {
+      const { document, revision } = await a.adapter.pull();
+      assert.ok(revision);
+      await b.adapter.push({ ...document, lastId: document.lastId + 1 }, revision);
+      await assert.rejects(a.adapter.push(document, revision), { name: 'RemoteChangedError' });
+      await assert.rejects(a.adapter.push(document, null), { name: 'RemoteChangedError' });
+    });
+
+    test('stores and fetches attachment files', async () => {
+      assert.equal(await a.adapter.getAttachment('missing'), null);
+      await a.adapter.putAttachment('photo', new Blob(['jpeg'], { type: 'image/jpeg' }));
+      assert.equal(await (await b.adapter.getAttachment('photo')).text(), 'jpeg');
+    });
+  });
+}
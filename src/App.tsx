@@ -1,9 +1,14 @@
 import { Note } from './components/note'
+import { AppLock } from './components/app-lock'
+import { useThemeClass } from './lib/theme'
 
 function App() {
+  useThemeClass()
   return (
     <>
-      <Note />
+      <AppLock>
+        <Note />
+      </AppLock>
       <footer className='text-center my-5 text-gray-500 dark:text-gray-400 font-mono text-xs'>
         <p>
           &copy; 2024 <a target='_blank' href="https://github.com/youxam" className='text-blue-500 dark:text-blue-400'>YouXam</a>
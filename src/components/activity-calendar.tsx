@@ -0,0 +1,76 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { calendarWeeks, countByDay } from '@/lib/timeline';
+import type { NoteData } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const levelClassNames = [
+  'bg-gray-100 dark:bg-gray-800',
+  'bg-blue-200 dark:bg-blue-900',
+  'bg-blue-400 dark:bg-blue-700',
+  'bg-blue-600 dark:bg-blue-500',
+  'bg-blue-800 dark:bg-blue-300',
+];
+
+const weekdayLabels = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+/**
+ * A year of note-taking as a grid of days, shaded by how many notes each
+ * day has. Clicking a day narrows the list to it; clicking it again clears that.
+ */
+export function ActivityCalendar({ notes, selectedDay, onSelectDay }: {
+  notes: NoteData[],
+  /** Start of the day the list is narrowed to, or null. */
+  selectedDay: number | null,
+  onSelectDay: (day: number | null) => void,
+}) {
+  const counts = useMemo(() => countByDay(notes), [notes]);
+  const [year, setYear] = useState(() => new Date(selectedDay ?? Date.now()).getFullYear());
+  const weeks = useMemo(() => calendarWeeks(year), [year]);
+  const inYear = (day: number) => new Date(day).getFullYear() === year;
+  const yearCounts = weeks.flat().filter(inYear).map((day) => counts.get(day) ?? 0);
+  const max = Math.max(0, ...yearCounts);
+  const total = yearCounts.reduce((sum, count) => sum + count, 0);
+
+  const level = (count: number) => count === 0 ? 0 : Math.ceil(count / max * (levelClassNames.length - 1));
+
+  return (
+    <div className="grid gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" aria-label="Previous year" onClick={() => setYear(year - 1)}>‹</Button>
+          <span className="font-medium">{year}</span>
+          <Button size="sm" variant="outline" aria-label="Next year" onClick={() => setYear(year + 1)}>›</Button>
+        </div>
+        <span className="text-gray-500 dark:text-gray-400">{total} {total === 1 ? 'note' : 'notes'} in {year}</span>
+      </div>
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        <div className="grid grid-rows-7 gap-[3px] text-[10px] leading-3 text-gray-500 dark:text-gray-400">
+          {weekdayLabels.map((label, index) => <span key={index} className="h-3">{label}</span>)}
+        </div>
+        {weeks.map((week) => (
+          <div key={week[0]} className="grid grid-rows-7 gap-[3px]">
+            {week.map((day) => {
+              if (!inYear(day)) return <span key={day} className="h-3 w-3" />;
+              const count = counts.get(day) ?? 0;
+              const label = `${new Date(day).toLocaleDateString()}: ${count} ${count === 1 ? 'note' : 'notes'}`;
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  title={label}
+                  aria-label={label}
+                  aria-pressed={selectedDay === day}
+                  className={cn('h-3 w-3 rounded-sm', levelClassNames[level(count)], {
+                    'ring-2 ring-gray-900 dark:ring-gray-100': selectedDay === day,
+                  })}
+                  onClick={() => onSelectDay(selectedDay === day ? null : day)}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useLockState, watchInactivity } from '@/lib/lock';
+import { useSettings } from '@/lib/settings';
+import * as storage from '@/lib/storage';
+
+function LockScreen() {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await storage.unlock(passphrase);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm p-6">
+        <form className="grid gap-4" onSubmit={unlock}>
+          <div className="flex items-center gap-2">
+            <LockIcon className="w-6 h-6" />
+            <h1 className="text-2xl font-bold">Geo Note is locked</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Your notes are encrypted. Enter the passphrase to read them.
+          </p>
+          <Input
+            type="password"
+            autoFocus
+            autoComplete="current-password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {error && <span className="text-sm text-red-700 dark:text-red-300">{error}</span>}
+          <Button type="submit" disabled={unlocking || passphrase === ''}>
+            {unlocking ? 'Unlocking...' : 'Unlock'}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Shows the app only while the notebook is readable: unencrypted, or
+ * unlocked. Locking unmounts everything below, so no decrypted note stays
+ * on screen or in component state, and it happens by itself after the
+ * configured time without use.
+ */
+export function AppLock({ children }: { children: React.ReactNode }) {
+  const state = useLockState();
+  const { autoLock } = useSettings();
+
+  useEffect(() => {
+    if (state !== 'unlocked' || autoLock <= 0) return;
+    return watchInactivity(autoLock * 60 * 1000, storage.lock);
+  }, [state, autoLock]);
+
+  if (state === 'loading') return null;
+  if (state === 'locked') return <LockScreen />;
+  return <>{children}</>;
+}
+
+function LockIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+      <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+    </svg>
+  )
+}
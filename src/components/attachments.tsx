@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import * as storage from '@/lib/storage';
+import { createAttachment, formatSize, isAudio, isImage, readPhotoMetadata, type NewAttachment, type PhotoMetadata } from '@/lib/attachments';
+import { formatCoordinates } from '@/lib/geo';
+import type { AttachmentData, AttachmentInfo } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+/** Object URL for a blob, revoked when the blob changes or the component unmounts. */
+const useObjectUrl = (blob: Blob | null | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+// Attachments not saved yet are passed in as `data`; saved ones are read from storage.
+const useAttachmentData = (id: string, data?: AttachmentData) => {
+  const [stored, setStored] = useState<AttachmentData | null | undefined>(data);
+  useEffect(() => {
+    if (data) {
+      setStored(data);
+      return;
+    }
+    let cancelled = false;
+    storage.getAttachment(id).then((attachment) => {
+      if (!cancelled) setStored(attachment ?? null);
+    }).catch((error) => {
+      console.error(error);
+      if (!cancelled) setStored(null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, data]);
+  return stored;
+};
+
+const openAttachment = (info: AttachmentInfo, data: AttachmentData) => {
+  const url = URL.createObjectURL(data.blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  // Images and PDFs open in a new tab, anything else is downloaded.
+  if (isImage(info) || info.type === 'application/pdf') {
+    anchor.target = '_blank';
+    anchor.rel = 'noopener';
+  } else {
+    anchor.download = info.name;
+  }
+  anchor.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+export function AttachmentThumbnail({ info, data, size = 'md', onRemove }: {
+  info: AttachmentInfo,
+  data?: AttachmentData,
+  size?: 'sm' | 'md',
+  onRemove?: () => void,
+}) {
+  const stored = useAttachmentData(info.id, data);
+  const thumbnailUrl = useObjectUrl(stored?.thumbnail);
+  // Audio is played in place, so only audio needs the whole file up front.
+  const audioUrl = useObjectUrl(isAudio(info) ? stored?.blob : null);
+  const missing = stored === null;
+  const title = missing ? `${info.name} (missing)` : `${info.name} (${formatSize(info.size)})`;
+
+  return (
+    <div className="relative">
+      {audioUrl ? (
+        <audio
+          controls
+          preload="metadata"
+          src={audioUrl}
+          title={title}
+          className={cn('h-10', size === 'sm' ? 'w-44' : 'w-72 max-w-full')}
+        />
+      ) : (
+        <button
+          type="button"
+          title={title}
+          disabled={!stored}
+          onClick={() => stored && openAttachment(info, stored)}
+          className={cn(
+            'flex items-center justify-center overflow-hidden rounded-md border bg-muted text-xs text-gray-500 dark:text-gray-400',
+            size === 'sm' ? 'h-12 w-12' : 'h-20 w-20',
+            { 'opacity-50': missing },
+          )}
+        >
+          {thumbnailUrl
+            ? <img src={thumbnailUrl} alt={info.name} className="h-full w-full object-cover" />
+            : <span className="line-clamp-3 break-all p-1">{info.name}</span>}
+        </button>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          className="absolute -right-1.5 -top-1.5 h-5 w-5 rounded-full border bg-background text-xs leading-none"
+          onClick={onRemove}
+          aria-label={`Remove ${info.name}`}
+        >
+          &times;
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function AttachmentList({ attachments, size, className }: {
+  attachments: AttachmentInfo[],
+  size?: 'sm' | 'md',
+  className?: string,
+}) {
+  if (attachments.length === 0) return null;
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {attachments.map((info) => <AttachmentThumbnail key={info.id} info={info} size={size} />)}
+    </div>
+  );
+}
+
+interface PhotoOffer extends PhotoMetadata {
+  name: string;
+}
+
+/**
+ * Attachments of a note being written or edited. Files added here are only
+ * passed up through `onAdd`; saving them is up to the caller. When a photo
+ * carries a GPS position and the note has no location yet, the user is
+ * offered to use the photo's position and time.
+ */
+export function AttachmentField({ attachments, staged, hasLocation, onAdd, onRemove, onUsePhoto, onError, children }: {
+  attachments: AttachmentInfo[],
+  staged: AttachmentData[],
+  hasLocation: boolean,
+  onAdd: (attachments: NewAttachment[]) => void,
+  onRemove: (id: string) => void,
+  onUsePhoto: (metadata: PhotoMetadata) => void,
+  onError: (error: unknown) => void,
+  /** Further actions shown next to the attach button. */
+  children?: React.ReactNode,
+}) {
+  const [adding, setAdding] = useState<boolean>(false);
+  const [offer, setOffer] = useState<PhotoOffer | null>(null);
+
+  const addFiles = async (files: File[]) => {
+    setAdding(true);
+    try {
+      onAdd(await Promise.all(files.map(createAttachment)));
+      if (!hasLocation) {
+        for (const file of files.filter((file) => isImage(file))) {
+          const metadata = await readPhotoMetadata(file);
+          if (metadata.location) {
+            setOffer({ ...metadata, name: file.name });
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      onError(error);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const chooseFiles = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.multiple = true;
+    fileInput.onchange = () => addFiles(Array.from(fileInput.files ?? []));
+    fileInput.click();
+  };
+
+  return (
+    <div className="grid gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {attachments.map((info) => (
+          <AttachmentThumbnail
+            key={info.id}
+            info={info}
+            data={staged.find((data) => data.id === info.id)}
+            onRemove={() => onRemove(info.id)}
+          />
+        ))}
+        <Button size="sm" variant="outline" onClick={chooseFiles} disabled={adding}>
+          {adding ? 'Adding...' : 'Attach files'}
+        </Button>
+        {children}
+      </div>
+      {offer && !hasLocation && (
+        <div className="flex flex-wrap items-center gap-2 text-gray-500 dark:text-gray-400">
+          {offer.name} was taken at {formatCoordinates(offer.location!)}
+          {offer.date !== null && ` on ${new Date(offer.date).toLocaleString()}`}.
+          <Button size="sm" variant="outline" onClick={() => {
+            onUsePhoto(offer);
+            setOffer(null);
+          }}>
+            Use for this note
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setOffer(null)}>Dismiss</Button>
+        </div>
+      )}
+    </div>
+  );
+}
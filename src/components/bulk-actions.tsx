@@ -0,0 +1,160 @@
+import { useEffect, useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { TagChip, TagInput } from '@/components/note-meta-fields';
+import type { BulkEdit } from '@/lib/bulk';
+import { noteFormats, type NoteFormat } from '@/lib/formats';
+import { collectTags } from '@/lib/tags';
+import type { NoteData } from '@/lib/types';
+
+/** What can be done with the selected notes, shown while notes are being selected. */
+export function SelectionBar({ count, onSelectAll, onSelectInView, onClear, onDelete, onExport, onEdit, onMerge, onDone }: {
+  count: number,
+  onSelectAll: () => void,
+  onSelectInView: () => void,
+  onClear: () => void,
+  onDelete: () => void,
+  onExport: (format: NoteFormat | 'bundle') => void,
+  onEdit: () => void,
+  onMerge: () => void,
+  onDone: () => void,
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border px-3 py-2 text-sm">
+      <span className="font-medium mr-2">{count} selected</span>
+      <Button size="sm" variant="outline" onClick={onSelectAll}>All listed</Button>
+      <Button size="sm" variant="outline" onClick={onSelectInView} title="Select the listed notes inside the map view">
+        All on map
+      </Button>
+      <Button size="sm" variant="outline" onClick={onClear} disabled={count === 0}>None</Button>
+      <span className="flex-1" />
+      <Button size="sm" variant="outline" onClick={onEdit} disabled={count === 0}>Tag or move...</Button>
+      <Button size="sm" variant="outline" onClick={onMerge} disabled={count < 2}>Merge</Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" disabled={count === 0}>Export</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {noteFormats.map(({ format, label }) => (
+            <DropdownMenuItem key={format} onSelect={() => onExport(format)}>
+              {label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => onExport('bundle')}>
+            Zip bundle with attachments
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button size="sm" variant="destructive" onClick={onDelete} disabled={count === 0}>Delete</Button>
+      <Button size="sm" onClick={onDone}>Done</Button>
+    </div>
+  );
+}
+
+type NotebookChange = 'keep' | 'move' | 'none';
+
+/** Adds and removes tags on the selected notes, or moves them to another notebook. */
+export function BulkEditDialog({ notes, allTags, allNotebooks, onApply, onClose }: {
+  notes: NoteData[] | null,
+  allTags: string[],
+  allNotebooks: string[],
+  onApply: (edit: BulkEdit) => void,
+  onClose: () => void,
+}) {
+  const [addTags, setAddTags] = useState<string[]>([]);
+  const [removeTags, setRemoveTags] = useState<string[]>([]);
+  const [notebookChange, setNotebookChange] = useState<NotebookChange>('keep');
+  const [notebook, setNotebook] = useState<string>('');
+  const notebookListId = useId();
+
+  useEffect(() => {
+    setAddTags([]);
+    setRemoveTags([]);
+    setNotebookChange('keep');
+    setNotebook('');
+  }, [notes]);
+
+  const apply = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply({
+      addTags,
+      removeTags,
+      ...(notebookChange !== 'keep' && { notebook: notebookChange === 'move' ? notebook : null }),
+    });
+  };
+
+  const currentTags = notes ? collectTags(notes) : [];
+  const unchanged = addTags.length === 0 && removeTags.length === 0 &&
+    (notebookChange === 'keep' || (notebookChange === 'move' && !notebook.trim()));
+
+  return (
+    <Dialog open={notes !== null} onOpenChange={(open) => !open && onClose()}>
+      {notes && <DialogContent>
+        <form className="grid gap-4" onSubmit={apply}>
+          <DialogHeader>
+            <DialogTitle>Tag or move {notes.length} {notes.length === 1 ? 'note' : 'notes'}</DialogTitle>
+            <DialogDescription>
+              Every change can be taken back from the history of each note.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-1 text-sm">
+            <span className="font-medium">Add tags</span>
+            <TagInput tags={addTags} suggestions={allTags} onChange={setAddTags} />
+          </div>
+          {currentTags.length > 0 && (
+            <div className="grid gap-1 text-sm">
+              <span className="font-medium">Remove tags</span>
+              <div className="flex flex-wrap gap-1">
+                {currentTags.map((tag) => (
+                  <TagChip
+                    key={tag}
+                    tag={tag}
+                    active={removeTags.includes(tag)}
+                    onClick={() => setRemoveTags((tags) => tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag])}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="grid gap-1 text-sm">
+            <span className="font-medium">Notebook</span>
+            <div className="flex gap-2">
+              <select
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                aria-label="Notebook change"
+                value={notebookChange}
+                onChange={(e) => setNotebookChange(e.target.value as NotebookChange)}
+              >
+                <option value="keep">Leave as they are</option>
+                <option value="move">Move to</option>
+                <option value="none">Take out of notebooks</option>
+              </select>
+              {notebookChange === 'move' && (
+                <>
+                  <Input
+                    className="h-9"
+                    list={notebookListId}
+                    value={notebook}
+                    onChange={(e) => setNotebook(e.target.value)}
+                    placeholder="Notebook"
+                    autoFocus
+                  />
+                  <datalist id={notebookListId}>
+                    {allNotebooks.map((name) => <option key={name} value={name} />)}
+                  </datalist>
+                </>
+              )}
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={unchanged}>Apply</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>}
+    </Dialog>
+  );
+}
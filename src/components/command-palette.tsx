@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { excerpt } from '@/lib/markdown';
+import { emptyQuery, foldText, matchesQuery, tokenize } from '@/lib/search';
+import { formatShortcut, SHORTCUTS } from '@/lib/shortcuts';
+import type { NoteData } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+export interface Command {
+  id: string;
+  label: string;
+  /** The key it is also bound to, as shown to the user. */
+  shortcut?: string;
+  run: () => void;
+}
+
+// Enough to find a note by a word or two without a long list to scroll.
+const MAX_NOTES = 8;
+
+type Item = { type: 'command'; command: Command } | { type: 'note'; note: NoteData };
+
+/**
+ * Runs any command, or jumps to a note, by typing part of its name or
+ * content. The arrow keys move through the matches and Enter picks one.
+ */
+export function CommandPalette({ open, onOpenChange, commands, notes, onSelectNote }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+  commands: Command[],
+  notes: NoteData[],
+  onSelectNote: (id: number) => void,
+}) {
+  const [text, setText] = useState<string>('');
+  const [selected, setSelected] = useState<number>(0);
+
+  useEffect(() => {
+    if (!open) return;
+    setText('');
+    setSelected(0);
+  }, [open]);
+
+  const items = useMemo((): Item[] => {
+    const folded = foldText(text.trim());
+    const tokens = tokenize(text);
+    const matchingCommands = commands.filter((command) => foldText(command.label).includes(folded));
+    const matchingNotes = tokens.length > 0
+      ? notes.filter((note) => matchesQuery(note, { ...emptyQuery, text }, tokens)).slice(0, MAX_NOTES)
+      : [];
+    return [
+      ...matchingCommands.map((command): Item => ({ type: 'command', command })),
+      ...matchingNotes.map((note): Item => ({ type: 'note', note })),
+    ];
+  }, [text, commands, notes]);
+
+  const pick = (item: Item) => {
+    onOpenChange(false);
+    if (item.type === 'command') item.command.run();
+    else onSelectNote(item.note.id);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((selected) => Math.min(selected + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((selected) => Math.max(selected - 1, 0));
+    } else if (e.key === 'Enter' && items[selected]) {
+      e.preventDefault();
+      pick(items[selected]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0 gap-2 p-2 data-[state=closed]:slide-out-to-top-[20%] data-[state=open]:slide-in-from-top-[20%]">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">Type to find a command or a note.</DialogDescription>
+        <Input
+          placeholder="Type a command or search notes..."
+          aria-label="Command or note"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={onKeyDown}
+        />
+        <ul className="max-h-[50vh] overflow-auto text-sm" role="listbox">
+          {items.length === 0 && <li className="px-3 py-2 text-gray-500 dark:text-gray-400">Nothing found.</li>}
+          {items.map((item, index) => (
+            <li
+              key={item.type === 'command' ? item.command.id : `note-${item.note.id}`}
+              role="option"
+              aria-selected={index === selected}
+              className={cn('flex cursor-pointer items-center justify-between gap-2 rounded-sm px-3 py-2', { 'bg-accent': index === selected })}
+              onMouseMove={() => setSelected(index)}
+              onClick={() => pick(item)}
+            >
+              {item.type === 'command' ? (
+                <>
+                  <span>{item.command.label}</span>
+                  {item.command.shortcut && <kbd className="text-xs text-gray-500 dark:text-gray-400">{item.command.shortcut}</kbd>}
+                </>
+              ) : (
+                <span className="truncate">
+                  <span className="text-gray-500 dark:text-gray-400">#{item.note.id}</span>{' '}
+                  {excerpt(item.note.content, 80, 1) || 'Empty note'}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Lists every keyboard shortcut. */
+export function ShortcutsHelp({ open, onOpenChange }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Letter keys work when no text field has the focus.
+          </DialogDescription>
+        </DialogHeader>
+        <table className="text-sm">
+          <tbody>
+            {SHORTCUTS.map((shortcut) => (
+              <tr key={shortcut.action}>
+                <td className="py-1 pr-4">
+                  <kbd className="rounded border px-1.5 py-0.5 text-xs">{formatShortcut(shortcut)}</kbd>
+                </td>
+                <td className="py-1">{shortcut.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { checkNewPassphrase } from '@/lib/crypto';
+import { forgetPlaces } from '@/lib/geocoding';
+import { forgetLastPosition } from '@/lib/location';
+import { forgetAreaBounds } from '@/lib/offline-maps';
+import { forgetReminded } from '@/lib/reminders';
+import { useLockState } from '@/lib/lock';
+import { updateSettings } from '@/lib/settings';
+import * as storage from '@/lib/storage';
+
+type Action = 'enable' | 'change' | 'disable';
+
+/** Turns encryption of the stored notebook on or off, or changes its passphrase. */
+export function EncryptionDialog({ open, onOpenChange }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+}) {
+  const state = useLockState();
+  const [action, setAction] = useState<Action>('change');
+  const [current, setCurrent] = useState<string>('');
+  const [next, setNext] = useState<string>('');
+  const [repeated, setRepeated] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const encrypted = state === 'unlocked' || state === 'locked';
+  const shown: Action = encrypted ? action : 'enable';
+
+  useEffect(() => {
+    if (!open) return;
+    setAction('change');
+    setCurrent('');
+    setNext('');
+    setRepeated('');
+    setError(null);
+  }, [open]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = shown === 'disable' ? null : checkNewPassphrase(next, repeated);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      if (shown === 'enable') {
+        await storage.enableEncryption(next);
+        // Cached place names, the last position, the bounds of offline map
+        // areas and when reminders went off would still tell where the notes
+        // were taken.
+        forgetPlaces();
+        forgetLastPosition();
+        forgetAreaBounds();
+        forgetReminded();
+        // Sync would send the notes unencrypted, so it is turned off along
+        // with its stored password.
+        updateSettings({ sync: null });
+        await storage.resetSyncBase();
+      }
+      else if (shown === 'change') await storage.changePassphrase(current, next);
+      else await storage.disableEncryption(current);
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form className="grid gap-4" onSubmit={submit}>
+          <DialogHeader>
+            <DialogTitle>Encryption</DialogTitle>
+            <DialogDescription>
+              {encrypted
+                ? 'Notes, their history, attachments and tracks are stored encrypted with your passphrase.'
+                : 'Store notes, their history, attachments and tracks encrypted with a passphrase, and ask for it when the app is opened.'}
+            </DialogDescription>
+          </DialogHeader>
+          {encrypted && (
+            <div className="flex gap-2">
+              {(['change', 'disable'] as const).map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={action === option ? 'secondary' : 'outline'}
+                  onClick={() => {
+                    setAction(option);
+                    setError(null);
+                  }}
+                >
+                  {option === 'change' ? 'Change passphrase' : 'Turn off encryption'}
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="grid gap-2 text-sm">
+            {shown !== 'enable' && (
+              <Input
+                type="password"
+                autoComplete="current-password"
+                placeholder="Current passphrase"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+              />
+            )}
+            {shown !== 'disable' && (
+              <>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="New passphrase"
+                  value={next}
+                  onChange={(e) => setNext(e.target.value)}
+                />
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Repeat the new passphrase"
+                  value={repeated}
+                  onChange={(e) => setRepeated(e.target.value)}
+                />
+              </>
+            )}
+            <span className="text-gray-500 dark:text-gray-400">
+              {shown === 'disable'
+                ? 'Everything will be stored readable again.'
+                : 'There is no way to recover the notes if the passphrase is forgotten.'}
+            </span>
+            {error && <span className="text-red-700 dark:text-red-300">{error}</span>}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" variant={shown === 'disable' ? 'destructive' : 'default'} disabled={busy}>
+              {busy ? 'Working...' : shown === 'enable' ? 'Encrypt notes' : shown === 'change' ? 'Change passphrase' : 'Decrypt notes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import * as storage from '@/lib/storage';
+import { diffLines } from '@/lib/diff';
+import { describeLocation } from '@/lib/geo';
+import type { NoteData, NoteRevision } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// What else differs between a revision and the note, beside the content.
+const metadataChanges = (revision: NoteRevision, note: NoteData) => {
+  const changes: string[] = [];
+  if (revision.tags.join(',') !== note.tags.join(',')) {
+    changes.push(`Tags: ${revision.tags.join(', ') || 'none'} → ${note.tags.join(', ') || 'none'}`);
+  }
+  if (revision.notebook !== note.notebook) {
+    changes.push(`Notebook: ${revision.notebook ?? 'none'} → ${note.notebook ?? 'none'}`);
+  }
+  if (describeLocation(revision) !== describeLocation(note)) {
+    changes.push(`Location: ${describeLocation(revision)} → ${describeLocation(note)}`);
+  }
+  return changes;
+};
+
+/**
+ * Lists the earlier versions of a note. Each is shown as the changes made
+ * since, and can be restored; restoring is itself an edit, so it can be
+ * taken back the same way.
+ */
+export function HistoryDialog({ note, onRestore, onClose, onError }: {
+  note: NoteData | null,
+  onRestore: (revision: NoteRevision) => void,
+  onClose: () => void,
+  onError: (error: unknown) => void,
+}) {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  useEffect(() => {
+    setRevisions(null);
+    setSelected(null);
+    if (!note) return;
+    let cancelled = false;
+    storage.getRevisions(note.id).then((revisions) => {
+      if (cancelled) return;
+      setRevisions(revisions);
+      setSelected(revisions[0]?.id ?? null);
+    }).catch(onError);
+    return () => {
+      cancelled = true;
+    };
+  }, [note, onError]);
+
+  const revision = revisions?.find(({ id }) => id === selected) ?? null;
+
+  return (
+    <Dialog open={note !== null} onOpenChange={(open) => !open && onClose()}>
+      {note && <DialogContent className="max-h-[90vh] flex flex-col md:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>History of note #{note.id}</DialogTitle>
+          <DialogDescription>
+            A version is kept each time the note is edited.
+          </DialogDescription>
+        </DialogHeader>
+        {revisions?.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">This note has not been edited yet.</p>
+        )}
+        {revisions && revisions.length > 0 && (
+          <div className="grid md:grid-cols-[12rem_1fr] gap-4 overflow-hidden text-sm">
+            <ul className="overflow-auto space-y-1">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    className={cn('w-full rounded-md px-2 py-1 text-left hover:bg-muted', { 'bg-muted font-medium': revision.id === selected })}
+                    onClick={() => setSelected(revision.id)}
+                  >
+                    {new Date(revision.saved).toLocaleString()}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {revision && (
+              <div className="overflow-auto space-y-2">
+                <p className="text-gray-500 dark:text-gray-400">
+                  Replaced on {new Date(revision.saved).toLocaleString()}. Changes made since:
+                </p>
+                <pre className="whitespace-pre-wrap break-words rounded-md border p-2 font-mono text-xs">
+                  {diffLines(revision.content, note.content).map((line, index) => (
+                    <div
+                      key={index}
+                      className={cn({
+                        'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300': line.type === 'removed',
+                        'bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300': line.type === 'added',
+                      })}
+                    >
+                      {line.type === 'removed' ? '- ' : line.type === 'added' ? '+ ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </pre>
+                {metadataChanges(revision, note).map((change) => <p key={change}>{change}</p>)}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button disabled={!revision} onClick={() => revision && onRestore(revision)}>Restore this version</Button>
+        </DialogFooter>
+      </DialogContent>}
+    </Dialog>
+  );
+}
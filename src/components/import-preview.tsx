@@ -0,0 +1,79 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { ParsedNotes } from '@/lib/formats';
+import type { ImportPlan } from '@/lib/merge';
+import type { AttachmentData, NoteData } from '@/lib/types';
+
+export interface PendingImport {
+  filename: string;
+  parsed: ParsedNotes;
+  /** Attachment contents read from a bundle; empty for other formats. */
+  attachments: AttachmentData[];
+  plan: ImportPlan;
+}
+
+const excerpt = (note: NoteData) => {
+  const content = note.content.trim().split('\n')[0];
+  return content.length > 40 ? `${content.substring(0, 40)}...` : content || 'Empty note';
+};
+
+function Section({ title, children }: { title: string, children: React.ReactNode }) {
+  return (
+    <div>
+      <h3 className="font-medium mb-1">{title}</h3>
+      <ul className="text-gray-500 dark:text-gray-400 space-y-0.5">{children}</ul>
+    </div>
+  );
+}
+
+export function ImportPreview({ pending, onMerge, onReplace, onCancel }: {
+  pending: PendingImport | null,
+  onMerge: () => void,
+  onReplace: () => void,
+  onCancel: () => void,
+}) {
+  const renumbered = new Map(pending?.plan.renumbered.map(({ from, to }) => [to, from]));
+  return (
+    <Dialog open={pending !== null} onOpenChange={(open) => !open && onCancel()}>
+      {pending && <DialogContent className="max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import {pending.filename}</DialogTitle>
+          <DialogDescription>
+            {pending.parsed.notes.length} note(s){pending.parsed.tracks.length > 0 && ` and ${pending.parsed.tracks.length} track(s)`} read from the file.
+            Merging adds {pending.plan.added.length}, updates {pending.plan.updated.length} and
+            skips {pending.plan.skipped.length}. Replacing moves every current note to the trash and keeps the current tracks.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="overflow-auto space-y-4 text-sm">
+          {pending.plan.added.length > 0 && <Section title="Added">
+            {pending.plan.added.map((note) => (
+              <li key={note.id}>
+                #{note.id}{renumbered.has(note.id) && ` (was #${renumbered.get(note.id)})`}: {excerpt(note)}
+              </li>
+            ))}
+          </Section>}
+          {pending.plan.updated.length > 0 && <Section title="Updated">
+            {pending.plan.updated.map((note) => (
+              <li key={note.id}>#{note.id}: {excerpt(note)}</li>
+            ))}
+          </Section>}
+          {pending.plan.skipped.length > 0 && <Section title="Skipped">
+            {pending.plan.skipped.map(({ note, reason }) => (
+              <li key={note.id}>#{note.id}: {reason}</li>
+            ))}
+          </Section>}
+          {pending.parsed.skipped.length > 0 && <Section title="Invalid entries">
+            {pending.parsed.skipped.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </Section>}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button variant="destructive" onClick={onReplace}>Replace all</Button>
+          <Button onClick={onMerge}>Merge</Button>
+        </DialogFooter>
+      </DialogContent>}
+    </Dialog>
+  );
+}
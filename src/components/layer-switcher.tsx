@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { updateSettings, useSettings } from '@/lib/settings';
+import { presetLayers } from '@/lib/tiles';
+
+/** Picks the base map; custom layers are added in the settings. */
+export function LayerSwitcher({ className }: { className?: string }) {
+  const { baseLayer, customLayers, darkMap } = useSettings();
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className={className}>
+          <LayersIcon className="w-4 h-4 mr-2" />
+          Layers
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={baseLayer} onValueChange={(id) => updateSettings({ baseLayer: id })}>
+          {presetLayers.map((layer) => (
+            <DropdownMenuRadioItem key={layer.id} value={layer.id}>{layer.name}</DropdownMenuRadioItem>
+          ))}
+          {customLayers.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Custom</DropdownMenuLabel>
+              {customLayers.map((layer) => (
+                <DropdownMenuRadioItem key={layer.id} value={layer.id}>{layer.name}</DropdownMenuRadioItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem checked={darkMap} onCheckedChange={(checked) => updateSettings({ darkMap: checked })}>
+          Dark map in dark mode
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function LayersIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="m12.83 2.18a2 2 0 0 0-1.66 0L2.6 6.08a1 1 0 0 0 0 1.83l8.58 3.91a2 2 0 0 0 1.66 0l8.58-3.9a1 1 0 0 0 0-1.83Z" />
+      <path d="m22 17.65-9.17 4.16a2 2 0 0 1-1.66 0L2 17.65" />
+      <path d="m22 12.65-9.17 4.16a2 2 0 0 1-1.66 0L2 12.65" />
+    </svg>
+  )
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getCurrentPosition, locationFromCoords, manualLocation } from '@/lib/location';
+import { useSettings } from '@/lib/settings';
+import { describeLocation, formatCoordinates, formatDistance, parseCoordinates } from '@/lib/geo';
+import { noLocation, type NoteLocation } from '@/lib/types';
+
+/**
+ * Lets the user set a note's location from GPS, by typing coordinates, by
+ * clicking the map (`picking`) or by clearing it. A `null` location means the
+ * note will take the current GPS position when it is saved.
+ */
+export function LocationEditor({ location, picking, onPickingChange, onChange, onError }: {
+  location: NoteLocation | null,
+  picking: boolean,
+  onPickingChange: (picking: boolean) => void,
+  onChange: (location: NoteLocation) => void,
+  onError: (error: unknown) => void,
+}) {
+  const [text, setText] = useState<string>('');
+  const [invalid, setInvalid] = useState<boolean>(false);
+  const [locating, setLocating] = useState<boolean>(false);
+  const { accuracyThreshold } = useSettings();
+
+  const latitude = location?.latitude ?? null;
+  const longitude = location?.longitude ?? null;
+  const inaccurate = location?.locationSource === 'gps' && location.accuracy !== null && location.accuracy > accuracyThreshold;
+  const current = latitude !== null && longitude !== null ? formatCoordinates({ latitude, longitude }) : '';
+
+  useEffect(() => {
+    setText(current);
+    setInvalid(false);
+  }, [current]);
+
+  const applyText = () => {
+    // Leaving the field untouched must not turn a GPS fix into a manual location.
+    if (!text.trim() || text === current) return;
+    const point = parseCoordinates(text);
+    setInvalid(point === null);
+    if (point) onChange(manualLocation(point));
+  };
+
+  // Retrying asks for a fresh fix rather than reusing the cached one.
+  const locateWithGPS = async (fresh: boolean) => {
+    onPickingChange(false);
+    setLocating(true);
+    try {
+      onChange(locationFromCoords(await getCurrentPosition(fresh ? { maximumAge: 0 } : {})));
+    } catch (error) {
+      onError(error);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-2 text-sm">
+      <div className="text-gray-500 dark:text-gray-400">
+        Location: {location ? describeLocation(location) : 'current GPS position when saved'}
+        {picking && ' · click the map to place the note'}
+      </div>
+      {inaccurate && (
+        <div className="flex flex-wrap items-center gap-2 text-amber-600 dark:text-amber-400">
+          This fix is less accurate than {formatDistance(accuracyThreshold)}.
+          <Button size="sm" variant="outline" onClick={() => locateWithGPS(true)} disabled={locating}>
+            Retry
+          </Button>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className={invalid ? 'flex-1 min-w-[12rem] border-red-500' : 'flex-1 min-w-[12rem]'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              applyText();
+            }
+          }}
+          onBlur={applyText}
+          placeholder={`Coordinates, e.g. 48.8584, 2.2945 or 48°51'30"N 2°17'40"E`}
+          title={invalid ? 'Unrecognized coordinates' : undefined}
+        />
+        <Button size="sm" variant="outline" onClick={() => locateWithGPS(false)} disabled={locating}>
+          {locating ? 'Locating...' : 'Use GPS'}
+        </Button>
+        <Button size="sm" variant={picking ? 'default' : 'outline'} onClick={() => onPickingChange(!picking)}>
+          Pick on map
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => {
+          onPickingChange(false);
+          onChange(noLocation);
+        }}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,558 @@
+import { Fragment, useState, useEffect, useMemo, useRef } from 'react';
+import { MapContainer, TileLayer, WMSTileLayer, Marker, Popup, Circle, CircleMarker, Polygon, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import markerIconUrl from 'leaflet/dist/images/marker-icon.png';
+import markerShadowUrl from 'leaflet/dist/images/marker-shadow.png';
+import { getCurrentPosition, getLastKnownPosition, locationErrorMessage } from '@/lib/location';
+import { Markdown } from '@/components/markdown';
+import { AttachmentList } from '@/components/attachments';
+import { LayerSwitcher } from '@/components/layer-switcher';
+import { TimeSlider } from '@/components/time-slider';
+import { PlaceSearch } from '@/components/place-search';
+import type { Place } from '@/lib/geocoding';
+import { excerpt } from '@/lib/markdown';
+import { useSettings } from '@/lib/settings';
+import { useBaseLayer } from '@/lib/theme';
+import { inTimeWindow, timeExtent, type TimeWindow } from '@/lib/timeline';
+import type { BaseLayer } from '@/lib/tiles';
+import { boundsContain, formatDistance, noteLocation, rectangleToPolygon, type GeoBounds, type GeoPoint, type SpatialFilter } from '@/lib/geo';
+import { formatDuration, trackStats } from '@/lib/tracks';
+import type { NoteData, Track } from '@/lib/types';
+
+export type DrawMode = 'polygon' | 'rectangle' | null;
+
+/** A note location being edited on the map, by clicking it or dragging the marker. */
+export interface LocationTarget {
+  label: string;
+  point: GeoPoint | null;
+  accuracy: number | null;
+  picking: boolean;
+  onChange: (point: GeoPoint) => void;
+}
+
+const FitBounds = ({ notes }: { notes: NoteData[] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const located = notes.filter((note) => note.latitude !== null && note.longitude !== null);
+    if (located.length === 0) return;
+    const bounds = L.latLngBounds(located.map((note) => [note.latitude!, note.longitude!]));
+    map.fitBounds(bounds, { padding: [40, 40], maxZoom: 17 });
+  }, [map, notes]);
+
+  return null;
+};
+
+// The map opens at the last known position, or else around the notes once
+// they load, and moves to the current position when a fix arrives unless the
+// user has already panned it. Without a fix the map just stays where it is.
+const InitialView = ({ notes, hasCenter, onError }: {
+  notes: NoteData[],
+  hasCenter: boolean,
+  onError: (message: string | null) => void,
+}) => {
+  const map = useMap();
+  const placed = useRef(hasCenter);
+
+  useEffect(() => {
+    if (placed.current) return;
+    const located = notes.filter((note) => noteLocation(note));
+    if (located.length === 0) return;
+    placed.current = true;
+    map.fitBounds(L.latLngBounds(located.map((note) => [note.latitude!, note.longitude!])), { padding: [40, 40], maxZoom: 17 });
+  }, [map, notes]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let moved = false;
+    const onDrag = () => {
+      moved = true;
+    };
+    map.on('dragstart', onDrag);
+    getCurrentPosition().then((position) => {
+      if (cancelled) return;
+      placed.current = true;
+      onError(null);
+      if (!moved) map.setView([position.latitude, position.longitude], 17);
+    }).catch((error) => {
+      if (!cancelled) onError(locationErrorMessage(error));
+    });
+    return () => {
+      cancelled = true;
+      map.off('dragstart', onDrag);
+    };
+  }, [map, onError]);
+
+  return null;
+};
+
+const CenterControl = ({ getCenter }: { getCenter: () => Promise<L.LatLngExpression> }) => {
+  const map = useMap();
+
+  const handleClick = async () => {
+    try {
+      map.setView(await getCenter(), 17);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // @ts-expect-error - Leaflet Control
+  L.Control.CenterButton = L.Control.extend({
+    onAdd: function () {
+      const btn = L.DomUtil.create('button', 'leaflet-bar');
+      btn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 576 512" class="h-4" style="padding: 0px 0px">
+          <path d="M575.8 255.5c0 18-15 32.1-32 32.1h-32l.7 160.2c0 2.7-.2 5.4-.5 8.1V472c0 22.1-17.9 40-40 40H456c-1.1 0-2.2 0-3.3-.1c-1.4 .1-2.8 .1-4.2 .1H416 392c-22.1 0-40-17.9-40-40V448 384c0-17.7-14.3-32-32-32H256c-17.7 0-32 14.3-32 32v64 24c0 22.1-17.9 40-40 40H160 128.1c-1.5 0-3-.1-4.5-.2c-1.2 .1-2.4 .2-3.6 .2H104c-22.1 0-40-17.9-40-40V360c0-.9 0-1.9 .1-2.8V287.6H32c-18 0-32-14-32-32.1c0-9 3-17 10-24L266.4 8c7-7 15-8 22-8s15 2 21 7L564.8 231.5c8 7 12 15 11 24z"/>
+        </svg>`;
+      btn.style.backgroundColor = 'white';
+      btn.style.border = '2px solid rgba(0,0,0,0.2)';
+      btn.style.cursor = 'pointer';
+      btn.style.padding = '5px 6px';
+
+      btn.onclick = handleClick;
+
+      return btn;
+    },
+    onRemove: function () {
+    }
+  });
+
+  // @ts-expect-error - Leaflet Control
+  L.control.centerButton = function (opts) {
+    // @ts-expect-error - Leaflet Control
+    return new L.Control.CenterButton(opts);
+  }
+
+  useEffect(() => {
+    // @ts-expect-error - Leaflet Control
+    const control = L.control.centerButton({ position: 'topleft' }).addTo(map);
+    return () => {
+      map.removeControl(control);
+    };
+  }, [map]);
+
+  return null;
+};
+
+const toLatLng = (point: GeoPoint): L.LatLngTuple => [point.latitude, point.longitude];
+
+const toBounds = (bounds: L.LatLngBounds): GeoBounds => ({
+  south: bounds.getSouth(),
+  west: bounds.getWest(),
+  north: bounds.getNorth(),
+  east: bounds.getEast(),
+});
+
+// Keyed by id, so switching layers replaces the Leaflet layer along with its attribution and zoom range.
+const BaseTileLayer = ({ layer }: { layer: BaseLayer }) => layer.type === 'wms' ? (
+  <WMSTileLayer
+    key={layer.id}
+    url={layer.url}
+    attribution={layer.attribution}
+    maxZoom={layer.maxZoom}
+    params={{ layers: layer.layers, format: 'image/png', transparent: false }}
+  />
+) : (
+  <TileLayer
+    key={layer.id}
+    url={layer.url}
+    attribution={layer.attribution}
+    subdomains={layer.subdomains || 'abc'}
+    maxZoom={layer.maxZoom}
+  />
+);
+
+export interface MapViewport {
+  bounds: GeoBounds;
+  zoom: number;
+}
+
+const ViewportReporter = ({ onChange }: { onChange: (viewport: MapViewport) => void }) => {
+  const map = useMapEvents({
+    moveend: () => onChange({ bounds: toBounds(map.getBounds()), zoom: map.getZoom() }),
+  });
+
+  // Report the initial viewport; later changes come from `moveend`.
+  useEffect(() => {
+    onChange({ bounds: toBounds(map.getBounds()), zoom: map.getZoom() });
+  }, [map, onChange]);
+
+  return null;
+};
+
+const SpatialOverlay = ({ filter }: { filter: SpatialFilter }) => {
+  const pathOptions = { color: '#3b82f6', weight: 2, fillOpacity: 0.08 };
+  switch (filter.type) {
+    case 'near':
+      return <Circle center={toLatLng(filter.center)} radius={filter.radius} pathOptions={pathOptions} />;
+    case 'area':
+      return <Polygon positions={filter.polygon.map(toLatLng)} pathOptions={pathOptions} />;
+    default:
+      return null;
+  }
+};
+
+// Moves the map to a place found by name and marks it until the search is cleared.
+const FoundPlace = ({ place }: { place: Place }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const { bounds, point } = place;
+    if (bounds) map.flyToBounds([[bounds.south, bounds.west], [bounds.north, bounds.east]], { maxZoom: 17 });
+    else map.flyTo(toLatLng(point), 13);
+  }, [map, place]);
+
+  return (
+    <CircleMarker center={toLatLng(place.point)} radius={8} pathOptions={{ color: '#dc2626', fillOpacity: 0.4 }}>
+      <Tooltip direction="top" offset={[0, -8]} permanent>{place.label}</Tooltip>
+    </CircleMarker>
+  );
+};
+
+// Centers the map on a point each time a new one is passed, e.g. from a
+// keyboard shortcut, zooming in if the map shows too much to find it.
+const FocusPoint = ({ point }: { point: GeoPoint }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    map.flyTo(toLatLng(point), Math.max(map.getZoom(), 16));
+  }, [map, point]);
+
+  return null;
+};
+
+// Polygons are drawn by clicking each vertex and double-clicking to finish;
+// rectangles by clicking two opposite corners. Escape cancels the shape.
+const DrawArea = ({ mode, onComplete }: { mode: NonNullable<DrawMode>, onComplete: (polygon: GeoPoint[]) => void }) => {
+  const [points, setPoints] = useState<GeoPoint[]>([]);
+  const [cursor, setCursor] = useState<GeoPoint | null>(null);
+
+  const map = useMapEvents({
+    click: (e) => {
+      const point = { latitude: e.latlng.lat, longitude: e.latlng.lng };
+      const last = points[points.length - 1];
+      if (last && last.latitude === point.latitude && last.longitude === point.longitude) return;
+      if (mode === 'rectangle' && points.length === 1) {
+        setPoints([]);
+        onComplete(rectangleToPolygon(points[0], point));
+        return;
+      }
+      setPoints([...points, point]);
+    },
+    dblclick: () => {
+      if (mode === 'polygon' && points.length >= 3) {
+        setPoints([]);
+        onComplete(points);
+      }
+    },
+    mousemove: (e) => setCursor({ latitude: e.latlng.lat, longitude: e.latlng.lng }),
+    keydown: (e) => {
+      if (e.originalEvent.key === 'Escape') setPoints([]);
+    },
+  });
+
+  useEffect(() => {
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [map]);
+
+  if (points.length === 0 || !cursor) return null;
+  const pathOptions = { color: '#3b82f6', weight: 2, dashArray: '4 4', fillOpacity: 0.05 };
+  if (mode === 'rectangle') {
+    return <Polygon positions={rectangleToPolygon(points[0], cursor).map(toLatLng)} pathOptions={pathOptions} />;
+  }
+  return <Polyline positions={[...points, cursor].map(toLatLng)} pathOptions={pathOptions} />;
+};
+
+const accuracyPathOptions = { color: '#3b82f6', weight: 1, fillOpacity: 0.1 };
+const inaccuratePathOptions = { color: '#d97706', weight: 1, fillOpacity: 0.1 };
+
+// Bundled with the app rather than loaded from a CDN, so markers show offline.
+const markerImages = `<img src="${markerIconUrl}" class="marker-icon" /><img src="${markerShadowUrl}" class="marker-shadow" />`;
+
+const LocationPicker = ({ target }: { target: LocationTarget }) => {
+  const { label, point, accuracy, picking, onChange } = target;
+  const map = useMapEvents({
+    click: (e) => {
+      if (picking) onChange({ latitude: e.latlng.lat, longitude: e.latlng.lng });
+    },
+  });
+  const icon = useMemo(() => L.divIcon({
+    className: 'custom-icon',
+    html: `
+      <div class="marker-container marker-editing">
+        ${markerImages}
+        <div class="marker-id">${label}</div>
+      </div>
+    `,
+    iconSize: [25, 41],
+    iconAnchor: [12, 41],
+  }), [label]);
+
+  useEffect(() => {
+    if (!picking) return;
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.getContainer().style.cursor = '';
+    };
+  }, [map, picking]);
+
+  if (!point) return null;
+  return (
+    <>
+      {accuracy !== null && <Circle center={toLatLng(point)} radius={accuracy} pathOptions={accuracyPathOptions} />}
+      <Marker
+        position={toLatLng(point)}
+        icon={icon}
+        draggable
+        zIndexOffset={1000}
+        eventHandlers={{
+          dragend: (e) => {
+            const { lat, lng } = (e.target as L.Marker).getLatLng();
+            onChange({ latitude: lat, longitude: lng });
+          },
+        }}
+      />
+    </>
+  );
+};
+
+// Accuracy circles are only useful once zoomed in far enough to tell them
+// apart, and only the ones in view are drawn so large notebooks stay fast.
+const ACCURACY_MIN_ZOOM = 15;
+const MAX_ACCURACY_CIRCLES = 200;
+
+const trackPathOptions = { color: '#8b5cf6', weight: 4, opacity: 0.8 };
+const recordingPathOptions = { color: '#ef4444', weight: 4, opacity: 0.9 };
+
+// The track being recorded is drawn in red, with a dot where it currently ends.
+const TrackLines = ({ tracks }: { tracks: Track[] }) => (
+  <>
+    {tracks.map((track) => {
+      const recording = track.end === null;
+      const last = track.points[track.points.length - 1];
+      const stats = trackStats(track);
+      return (
+        <Fragment key={track.id}>
+          {track.points.length > 1 && (
+            <Polyline positions={track.points.map(toLatLng)} pathOptions={recording ? recordingPathOptions : trackPathOptions}>
+              <Popup>
+                <strong>{track.name}</strong>
+                <div>{formatDistance(stats.distance)} in {formatDuration(stats.duration)}</div>
+              </Popup>
+            </Polyline>
+          )}
+          {recording && last && (
+            <CircleMarker center={toLatLng(last)} radius={6} pathOptions={{ ...recordingPathOptions, fillOpacity: 1 }} interactive={false} />
+          )}
+        </Fragment>
+      );
+    })}
+  </>
+);
+
+const AccuracyCircles = ({ notes, threshold }: { notes: NoteData[], threshold: number }) => {
+  const [view, setView] = useState<{ zoom: number, bounds: GeoBounds } | null>(null);
+  const map = useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: toBounds(map.getBounds()) }),
+  });
+
+  useEffect(() => {
+    setView({ zoom: map.getZoom(), bounds: toBounds(map.getBounds()) });
+  }, [map]);
+
+  const circles = useMemo(() => {
+    if (!view || view.zoom < ACCURACY_MIN_ZOOM) return [];
+    return notes.filter((note) => {
+      const point = noteLocation(note);
+      return point && note.locationSource === 'gps' && note.accuracy !== null && boundsContain(view.bounds, point);
+    }).slice(0, MAX_ACCURACY_CIRCLES);
+  }, [notes, view]);
+
+  return circles.map((note) => (
+    <Circle
+      key={note.id}
+      center={[note.latitude!, note.longitude!]}
+      radius={note.accuracy!}
+      pathOptions={note.accuracy! > threshold ? inaccuratePathOptions : accuracyPathOptions}
+      interactive={false}
+    />
+  ));
+};
+
+// The icon only depends on the note id, so each one is built once and shared
+// between renders instead of creating a new divIcon for every marker each time.
+const icons = new Map<number, L.DivIcon>();
+
+const markerIcon = (id: number) => {
+  let icon = icons.get(id);
+  if (!icon) {
+    icon = L.divIcon({
+      className: 'custom-icon',
+      html: `
+        <div class="marker-container">
+          ${markerImages}
+          <div class="marker-id">${id}</div>
+        </div>
+      `,
+      iconSize: [25, 41],
+      iconAnchor: [12, 41],
+      popupAnchor: [1, -40],
+    });
+    icons.set(id, icon);
+  }
+  return icon;
+};
+
+// Markers are managed directly on a cluster group rather than as one React
+// component each, so that notebooks with thousands of notes are added in bulk
+// and only notes whose position changed are touched on later renders. The
+// popup of the clicked marker is the only part rendered through React.
+const NoteMarkers = ({ notes, onNoteClick }: { notes: NoteData[], onNoteClick: (id: number) => void }) => {
+  const map = useMap();
+  const [selected, setSelected] = useState<number | null>(null);
+  const group = useMemo(() => L.markerClusterGroup({
+    chunkedLoading: true,
+    showCoverageOnHover: false,
+    maxClusterRadius: 50,
+  }), []);
+  const markers = useRef(new Map<number, { note: NoteData, marker: L.Marker }>());
+
+  useEffect(() => {
+    map.addLayer(group);
+    return () => {
+      map.removeLayer(group);
+    };
+  }, [map, group]);
+
+  useEffect(() => {
+    const current = markers.current;
+    const next = new Map(notes.filter((note) => noteLocation(note)).map((note) => [note.id, note]));
+    const removed: L.Marker[] = [];
+    const added: L.Marker[] = [];
+    current.forEach(({ note, marker }, id) => {
+      const updated = next.get(id);
+      if (updated && updated.latitude === note.latitude && updated.longitude === note.longitude) {
+        current.set(id, { note: updated, marker });
+        return;
+      }
+      removed.push(marker);
+      current.delete(id);
+    });
+    next.forEach((note, id) => {
+      if (current.has(id)) return;
+      const marker = L.marker([note.latitude!, note.longitude!], { icon: markerIcon(id) })
+        .on('click', () => setSelected(id));
+      current.set(id, { note, marker });
+      added.push(marker);
+    });
+    group.removeLayers(removed);
+    group.addLayers(added);
+  }, [group, notes]);
+
+  const note = selected !== null ? notes.find((note) => note.id === selected) : undefined;
+  if (!note || note.latitude === null || note.longitude === null) return null;
+  return (
+    <Popup
+      position={[note.latitude, note.longitude]}
+      // Matches the icon's popupAnchor on top of Leaflet's default popup offset.
+      offset={[1, -33]}
+      eventHandlers={{ remove: () => setSelected(null) }}
+    >
+      <div className='max-w-[200px]'>
+        <strong onClick={() => onNoteClick(note.id)} className="cursor-pointer underline text-blue-500 dark:text-blue-300 block mb-1">
+          Note #{note.id}
+        </strong>
+        <Markdown content={excerpt(note.content)} className="note-popup" />
+        <AttachmentList attachments={note.attachments.slice(0, 3)} size="sm" className="mt-1" />
+      </div>
+    </Popup>
+  );
+};
+
+export function Mapview({ notes, tracks, fitBounds, spatialFilter, drawMode, locationTarget, focus, onDrawComplete, onViewportChange, onNoteClick }: {
+  notes: NoteData[],
+  tracks: Track[],
+  fitBounds: boolean,
+  spatialFilter: SpatialFilter,
+  drawMode: DrawMode,
+  locationTarget: LocationTarget | null,
+  /** A point to center the map on; pass a new object to center on it again. */
+  focus: GeoPoint | null,
+  onDrawComplete: (polygon: GeoPoint[]) => void,
+  onViewportChange: (viewport: MapViewport) => void,
+  onNoteClick: (id: number) => void,
+}) {
+  const { accuracyThreshold, geocoder } = useSettings();
+  const [place, setPlace] = useState<Place | null>(null);
+  const baseLayer = useBaseLayer();
+  const [lastKnown] = useState(getLastKnownPosition);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow | null>(null);
+  const extent = useMemo(() => timeExtent(notes), [notes]);
+  // The time slider only thins out the markers; the view still frames every note.
+  const shownNotes = useMemo(
+    () => timeWindow ? notes.filter((note) => inTimeWindow(note, timeWindow)) : notes,
+    [notes, timeWindow],
+  );
+  return (
+    <div className="relative">
+      <MapContainer center={lastKnown ? toLatLng(lastKnown) : [20, 0]} zoom={lastKnown ? 17 : 2} className="h-96 md:h-[70vh]">
+        <BaseTileLayer layer={baseLayer} />
+        <CenterControl getCenter={async () => {
+          try {
+            const position = await getCurrentPosition();
+            setLocationError(null);
+            return [position.latitude, position.longitude];
+          } catch (error) {
+            setLocationError(locationErrorMessage(error));
+            throw error;
+          }
+        }}/>
+        <InitialView notes={notes} hasCenter={lastKnown !== null} onError={setLocationError} />
+        {fitBounds && <FitBounds notes={notes} />}
+        <ViewportReporter onChange={onViewportChange} />
+        <SpatialOverlay filter={spatialFilter} />
+        {drawMode && <DrawArea mode={drawMode} onComplete={onDrawComplete} />}
+        <TrackLines tracks={tracks} />
+        <AccuracyCircles notes={shownNotes} threshold={accuracyThreshold} />
+        <NoteMarkers notes={shownNotes} onNoteClick={onNoteClick} />
+        {locationTarget && <LocationPicker target={locationTarget} />}
+        {place && <FoundPlace place={place} />}
+        {focus && <FocusPoint point={focus} />}
+      </MapContainer>
+      {geocoder && (
+        <PlaceSearch
+          className="absolute left-14 top-2 z-[1000] w-72 max-w-[calc(100%-11rem)]"
+          onSelect={setPlace}
+          onClear={() => setPlace(null)}
+        />
+      )}
+      <LayerSwitcher className="absolute right-2 top-2 z-[1000] bg-background" />
+      {extent && (
+        <TimeSlider
+          className="absolute right-2 top-12 z-[1000] max-w-[calc(100%-4rem)] bg-background"
+          extent={extent}
+          value={timeWindow}
+          onChange={setTimeWindow}
+          count={shownNotes.length}
+        />
+      )}
+      {locationError && (
+        <div className="absolute bottom-2 left-2 z-[1000] rounded-md bg-white/90 px-2 py-1 text-sm text-red-700 shadow dark:bg-gray-900/90 dark:text-red-300">
+          Location unavailable: {locationError}
+        </div>
+      )}
+    </div>
+  );
+}
+
+
@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import ReactMarkdown, { type Components, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { rehypeHighlight, rehypeTaskOffsets, sanitizeSchema, toggleTask } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+const remarkPlugins = [remarkGfm];
+const noTokens: string[] = [];
+
+/**
+ * Renders note content as GitHub flavored Markdown. Raw HTML is never
+ * rendered and links are sanitized. Task list checkboxes can be ticked when
+ * `onToggleTask` is given; it receives the offset to pass to `toggleTask`.
+ */
+export function Markdown({ content, tokens = noTokens, onToggleTask, className }: {
+  content: string,
+  tokens?: string[],
+  onToggleTask?: (offset: number) => void,
+  className?: string,
+}) {
+  const rehypePlugins = useMemo<Options['rehypePlugins']>(
+    () => [rehypeTaskOffsets, [rehypeSanitize, sanitizeSchema], [rehypeHighlight, { tokens }]],
+    [tokens],
+  );
+  const components = useMemo((): Components => ({
+    a: ({ href, title, children }) => <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>,
+    mark: ({ children }) => <mark className="bg-yellow-200 text-inherit dark:bg-yellow-700 rounded-sm">{children}</mark>,
+    // Sanitizing only lets task list checkboxes through.
+    input: ({ node, checked }) => {
+      const offset = node?.properties.dataTaskOffset;
+      if (typeof offset !== 'number' || !onToggleTask) return <input type="checkbox" checked={checked} disabled />;
+      return <input type="checkbox" checked={checked} className="cursor-pointer" onChange={() => onToggleTask(offset)} />;
+    },
+  }), [onToggleTask]);
+
+  return (
+    <div className={cn('markdown break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+/** A Markdown textarea with a tab to preview the rendered note. */
+export function MarkdownEditor({ value, onChange, rows, placeholder, autoFocus }: {
+  value: string,
+  onChange: (value: string) => void,
+  rows: number,
+  placeholder?: string,
+  autoFocus?: boolean,
+}) {
+  const [preview, setPreview] = useState<boolean>(false);
+  return (
+    <div className="grid gap-1">
+      <div className="flex gap-1">
+        <Button size="sm" variant={preview ? 'ghost' : 'secondary'} onClick={() => setPreview(false)}>Write</Button>
+        <Button size="sm" variant={preview ? 'secondary' : 'ghost'} onClick={() => setPreview(true)}>Preview</Button>
+      </div>
+      {preview ? (
+        <div className="min-h-[60px] rounded-md border border-input px-3 py-2 text-sm">
+          {value.trim()
+            ? <Markdown content={value} onToggleTask={(offset) => onChange(toggleTask(value, offset))} />
+            : <span className="italic text-gray-500 dark:text-gray-400">Nothing to preview</span>}
+        </div>
+      ) : (
+        <Textarea
+          rows={rows}
+          value={value}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange(e.target.value)}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+        />
+      )}
+    </div>
+  );
+}
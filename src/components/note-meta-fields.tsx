@@ -0,0 +1,138 @@
+import { useId, useState } from 'react';
+import { normalizeNotebook, normalizeTag } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+const inputClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring';
+
+export function TagChip({ tag, active, onClick, onRemove }: {
+  tag: string,
+  active?: boolean,
+  onClick?: () => void,
+  onRemove?: () => void,
+}) {
+  return (
+    <span
+      onClick={onClick}
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs',
+        {
+          'cursor-pointer': onClick,
+          'bg-primary text-primary-foreground border-primary': active,
+          'text-gray-500 dark:text-gray-400': !active,
+        }
+      )}
+    >
+      #{tag}
+      {onRemove && (
+        <button type="button" className="opacity-60 hover:opacity-100" onClick={onRemove} aria-label={`Remove tag ${tag}`}>
+          &times;
+        </button>
+      )}
+    </span>
+  );
+}
+
+export function TagInput({ tags, suggestions, onChange }: {
+  tags: string[],
+  suggestions: string[],
+  onChange: (tags: string[]) => void,
+}) {
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [selected, setSelected] = useState(0);
+  const query = normalizeTag(input).toLowerCase();
+  const matches = suggestions
+    .filter((tag) => !tags.includes(tag) && tag.toLowerCase().includes(query))
+    .slice(0, 8);
+
+  const addTags = (text: string) => {
+    const added = text.split(',').map(normalizeTag).filter((tag) => tag && !tags.includes(tag));
+    if (added.length > 0) onChange([...tags, ...new Set(added)]);
+    setInput('');
+    setSelected(0);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      if (!input.trim() && e.key !== ',') return;
+      e.preventDefault();
+      addTags(query && matches[selected] && e.key !== ',' ? matches[selected] : input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((selected) => Math.min(selected + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((selected) => Math.max(selected - 1, 0));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={cn(inputClassName, 'h-auto min-h-9 flex-wrap items-center gap-1')}>
+        {tags.map((tag) => (
+          <TagChip key={tag} tag={tag} onRemove={() => onChange(tags.filter((t) => t !== tag))} />
+        ))}
+        <input
+          className="flex-1 min-w-[6rem] bg-transparent outline-none"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={onKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            addTags(input);
+          }}
+          placeholder={tags.length === 0 ? 'Add tags...' : ''}
+        />
+      </div>
+      {focused && query && matches.length > 0 && (
+        <ul className="absolute z-[1000] mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md py-1 text-sm">
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              className={cn('px-3 py-1 cursor-pointer', { 'bg-accent': index === selected })}
+              // Use mousedown so the suggestion is picked before the input loses focus.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTags(tag);
+              }}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function NoteMetaFields({ tags, notebook, allTags, allNotebooks, onChange }: {
+  tags: string[],
+  notebook: string | null,
+  allTags: string[],
+  allNotebooks: string[],
+  onChange: (meta: { tags: string[], notebook: string | null }) => void,
+}) {
+  const notebookListId = useId();
+  return (
+    <div className="grid gap-2 md:grid-cols-[1fr_16rem]">
+      <TagInput tags={tags} suggestions={allTags} onChange={(tags) => onChange({ tags, notebook })} />
+      <input
+        className={inputClassName}
+        list={notebookListId}
+        value={notebook ?? ''}
+        onChange={(e) => onChange({ tags, notebook: e.target.value })}
+        onBlur={(e) => onChange({ tags, notebook: normalizeNotebook(e.target.value) })}
+        placeholder="Notebook"
+      />
+      <datalist id={notebookListId}>
+        {allNotebooks.map((name) => <option key={name} value={name} />)}
+      </datalist>
+    </div>
+  );
+}
@@ -1,294 +1,1479 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import 'leaflet/dist/leaflet.css';
-import L from 'leaflet';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ImportPreview, type PendingImport } from '@/components/import-preview';
+import { NoteMetaFields, TagChip } from '@/components/note-meta-fields';
+import { SearchBar } from '@/components/search-bar';
+import { Mapview, type DrawMode, type LocationTarget, type MapViewport } from '@/components/mapview';
+import { LocationEditor } from '@/components/location-editor';
+import { SpatialFilterBar } from '@/components/spatial-filter-bar';
+import { SettingsDialog } from '@/components/settings-dialog';
+import { OfflineMapsDialog } from '@/components/offline-maps-dialog';
+import { Markdown, MarkdownEditor } from '@/components/markdown';
+import { AttachmentField, AttachmentList } from '@/components/attachments';
+import { VoiceRecorder } from '@/components/voice-recorder';
+import { TracksPanel } from '@/components/tracks-panel';
+import { HistoryDialog } from '@/components/history-dialog';
+import { TrashDialog } from '@/components/trash-dialog';
+import { UndoToast, type UndoAction } from '@/components/undo-toast';
+import { TimelineBar } from '@/components/timeline-bar';
+import { ActivityCalendar } from '@/components/activity-calendar';
+import { SyncStatus } from '@/components/sync-status';
+import { PassphraseDialog } from '@/components/passphrase-dialog';
+import { BellIcon, ReminderBanner, ReminderRadiusSelect } from '@/components/reminders';
+import { ShareDialog, SharedNoteDialog, type PendingShare } from '@/components/share-dialog';
+import { BulkEditDialog, SelectionBar } from '@/components/bulk-actions';
+import { CommandPalette, ShortcutsHelp, type Command } from '@/components/command-palette';
 import { cn } from '@/lib/utils';
+import * as storage from '@/lib/storage';
+import { detectFormat, noteFormats, parseNotes, serializeNotes, type NoteFormat, type ParsedNotes } from '@/lib/formats';
+import { planMerge } from '@/lib/merge';
+import { applyBulkEdit, combineNotes, selectRange, type BulkEdit } from '@/lib/bulk';
+import { toggleTask } from '@/lib/markdown';
+import { createAttachment, readPhotoMetadata, type NewAttachment } from '@/lib/attachments';
+import { createBundle, readBundle } from '@/lib/bundle';
+import { decryptFile, encryptFile, ENCRYPTED_EXTENSION, isEncryptedFile } from '@/lib/crypto';
+import { useLockState } from '@/lib/lock';
+import { getCurrentPosition, locationErrorMessage, locationFromCoords, manualLocation, photoLocation, watchPosition } from '@/lib/location';
+import { getGeocoder } from '@/lib/geocoding';
+import { dueReminders, notifyReminder, startReminders } from '@/lib/reminders';
+import { isShareFragment, readShareFragment, sharedNoteData } from '@/lib/share';
+import { matchShortcut, shortcutFor, type ShortcutAction } from '@/lib/shortcuts';
+import { getSettings, useSettings } from '@/lib/settings';
+import { boundsCenter, describeMotion, formatCoordinates, formatDistance, haversineDistance, matchesSpatialFilter, noteLocation, type GeoPoint, type SpatialFilter } from '@/lib/geo';
+import { emptyQuery, matchesQuery, tokenize, type NoteQuery } from '@/lib/search';
+import { collectNotebooks, collectTags, matchesTagFilter, normalizeNotebook, type TagFilter } from '@/lib/tags';
+import { acceptTrackPoint, createTrack, trackPointFromPosition } from '@/lib/tracks';
+import { addDays, groupByTime, sortNotes, startOfDay, type NoteSort, type TimeGrouping } from '@/lib/timeline';
+import { noLocation, pendingLocation, type AttachmentData, type NoteData, type NoteLocation, type NoteRevision, type Track } from '@/lib/types';
 
-interface Note {
-  id: number;
-  content: string;
-  date: number;
-  latitude: number | null;
-  longitude: number | null;
-}
+const downloadFile = (filename: string, data: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute('href', url);
+  downloadAnchorNode.setAttribute('download', filename);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+  URL.revokeObjectURL(url);
+};
 
+type ExportFormat = NoteFormat | 'bundle';
 
-const getCurrentPosition = (): Promise<GeolocationPosition['coords']> => {
-  return new Promise((resolve, reject) => {
-    try {
-      navigator.geolocation.getCurrentPosition(
-        (position) => resolve(position.coords),
-        (error) => {
-          console.log(error)
-          reject(error)
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: Infinity,
-          maximumAge: 0
-        }
-      );
-    } catch (error) {
-      console.log(error)
-      reject(error);
-    }
-  });
-};
+interface Notice {
+  type: 'error' | 'info';
+  text: string;
+}
+
+// The note list, optionally broken up by headings for each day, week or month.
+type ListRow =
+  | { type: 'group'; start: number; label: string; count: number }
+  | { type: 'note'; note: NoteData };
 
 export const Note: React.FC = () => {
-  const [notes, setNotes] = useState<Note[]>([]);
+  const [notes, setNotes] = useState<NoteData[]>([]);
   const [newNote, setNewNote] = useState<boolean>(false);
-  const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [editingNote, setEditingNote] = useState<NoteData | null>(null);
   const [newNoteContent, setNewNoteContent] = useState<string>('');
-  const noteRefs = useRef<{ [key: number]: HTMLElement | null }>({});
+  const [newNoteTags, setNewNoteTags] = useState<string[]>([]);
+  const [newNoteNotebook, setNewNoteNotebook] = useState<string | null>(null);
+  // Null until the user sets a location; otherwise GPS is asked after saving.
+  const [newNoteLocation, setNewNoteLocation] = useState<NoteLocation | null>(null);
+  const [newNoteAttachments, setNewNoteAttachments] = useState<NewAttachment[]>([]);
+  // Set when the note takes its time from a photo; otherwise it is dated on save.
+  const [newNoteDate, setNewNoteDate] = useState<number | null>(null);
+  const [newNoteReminderRadius, setNewNoteReminderRadius] = useState<number | null>(null);
+  // Files attached while editing, stored once the edit is saved.
+  const [stagedAttachments, setStagedAttachments] = useState<AttachmentData[]>([]);
+  const [pickingLocation, setPickingLocation] = useState<boolean>(false);
+  const [tagFilter, setTagFilter] = useState<TagFilter>({ tags: [], notebook: null });
+  const [query, setQuery] = useState<NoteQuery>(emptyQuery);
+  const [fitBounds, setFitBounds] = useState<boolean>(false);
+  const [spatialFilter, setSpatialFilter] = useState<SpatialFilter>({ type: 'none' });
+  const [drawMode, setDrawMode] = useState<DrawMode>(null);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
   const [highlightedNote, setHighlightedNote] = useState<number | null>(null);
+  // The notes picked for a bulk action, or null when not selecting.
+  const [selectedIds, setSelectedIds] = useState<Set<number> | null>(null);
+  // The note last clicked while selecting, where a shift-click range starts.
+  const selectionAnchor = useRef<number | null>(null);
+  const [bulkEditing, setBulkEditing] = useState<boolean>(false);
   const addNoteRef = useRef<HTMLButtonElement | null>(null);
-  const id = useRef<number>(0);
+  const searchRef = useRef<HTMLInputElement | null>(null);
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  // The note the keyboard moves from and acts on.
+  const [activeNote, setActiveNote] = useState<number | null>(null);
+  // Where the map was last asked to center.
+  const [mapFocus, setMapFocus] = useState<GeoPoint | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState<boolean>(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState<boolean>(false);
+  // A note to scroll to once the list shows it, e.g. after the filters were cleared.
+  const [pendingScroll, setPendingScroll] = useState<number | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const settings = useSettings();
+  const [settingsOpen, setSettingsOpen] = useState<boolean>(false);
+  const [offlineMapsOpen, setOfflineMapsOpen] = useState<boolean>(false);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [trackFilter, setTrackFilter] = useState<string | null>(null);
+  const [historyNote, setHistoryNote] = useState<NoteData | null>(null);
+  const [sharingNote, setSharingNote] = useState<NoteData | null>(null);
+  // A note opened from a share link, waiting to be added.
+  const [pendingShare, setPendingShare] = useState<PendingShare | null>(null);
+  const [trashOpen, setTrashOpen] = useState<boolean>(false);
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const [sort, setSort] = useState<NoteSort>('newest');
+  const [grouping, setGrouping] = useState<TimeGrouping>('none');
+  const [calendarOpen, setCalendarOpen] = useState<boolean>(false);
+  // The format of an encrypted export while its passphrase is asked for.
+  const [encryptedExport, setEncryptedExport] = useState<ExportFormat | null>(null);
+  // An encrypted file picked for import, waiting for its passphrase.
+  const [encryptedImport, setEncryptedImport] = useState<Uint8Array | null>(null);
+  // The latest fix while proximity reminders are on.
+  const [reminderFix, setReminderFix] = useState<GeolocationCoordinates | null>(null);
+  // Notes whose reminders went off and have not been dismissed yet.
+  const [nearbyIds, setNearbyIds] = useState<number[]>([]);
+  const lockState = useLockState();
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
+
+  const reportError = useCallback((error: unknown) => {
+    console.error(error);
+    setNotice({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+  }, []);
 
   useEffect(() => {
-    const storedNotes = localStorage.getItem('notes');
-    if (storedNotes) {
-      setNotes(JSON.parse(storedNotes));
-    }
-    const storedId = localStorage.getItem('id');
-    if (storedId) {
-      id.current = parseInt(storedId);
-    } else {
-      id.current = 0;
+    storage.getNotes().then(async (notes) => {
+      // Notes still pending from an earlier session were never located, and
+      // the current position says nothing about where they were written.
+      const stale = notes.filter((note) => note.locationSource === 'pending');
+      const settled = await Promise.all(stale.map((note) =>
+        storage.updateNote(note.id, (note) => note.locationSource === 'pending' ? { ...note, ...noLocation, updated: Date.now() } : null)));
+      const byId = new Map(settled.filter((note): note is NoteData => note !== null).map((note) => [note.id, note]));
+      setNotes(notes.map((note) => byId.get(note.id) ?? note));
+    }).catch(reportError);
+    storage.getTracks().then(setTracks).catch(reportError);
+  }, [reportError]);
+
+  // A share link opens the app with the note in its fragment, either on
+  // load or, if the app is already open, by changing the fragment.
+  useEffect(() => {
+    const openShareLink = async () => {
+      const hash = window.location.hash;
+      if (!isShareFragment(hash)) return;
+      // Dropped from the address before it is read, so reloading offers
+      // neither the note nor, for a damaged link, the error again.
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+      const shared = readShareFragment(hash);
+      if (!shared) return;
+      const lastId = await storage.getLastId();
+      const plan = planMerge(await storage.getNotes(), [sharedNoteData(shared, lastId + 1)], lastId);
+      setPendingShare({ shared, plan });
+    };
+    const onHashChange = () => {
+      openShareLink().catch(reportError);
+    };
+    onHashChange();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [reportError]);
+
+  const reloadNotes = useCallback(() => {
+    storage.getNotes().then(setNotes).catch(reportError);
+  }, [reportError]);
+
+  // A track left unfinished, e.g. by reloading the page, carries on recording.
+  const recordingId = tracks.find((track) => track.end === null)?.id;
+
+  useEffect(() => {
+    if (!recordingId) return;
+    return watchPosition(async (position) => {
+      const point = trackPointFromPosition(position);
+      try {
+        const updated = await storage.updateTrack(recordingId, (track) => {
+          const previous = track.points[track.points.length - 1];
+          return track.end === null && acceptTrackPoint(previous, point, getSettings().accuracyThreshold)
+            ? { ...track, points: [...track.points, point] }
+            : null;
+        });
+        if (updated) setTracks((tracks) => tracks.map((track) => track.id === updated.id ? updated : track));
+      } catch (error) {
+        reportError(error);
+      }
+    }, (error) => {
+      reportError(new Error(`Track recording has no GPS fix: ${locationErrorMessage(error)}`));
+    });
+  }, [recordingId, reportError]);
+
+  const allTags = useMemo(() => collectTags(notes), [notes]);
+  const trackNames = useMemo(() => new Map(tracks.map((track) => [track.id, track.name])), [tracks]);
+  const allNotebooks = useMemo(() => collectNotebooks(notes), [notes]);
+  const searchTokens = useMemo(() => tokenize(query.text), [query.text]);
+  const visibleNotes = useMemo(
+    () => notes.filter((note) =>
+      matchesTagFilter(note, tagFilter) &&
+      matchesQuery(note, query, searchTokens) &&
+      matchesSpatialFilter(note, spatialFilter, viewport?.bounds ?? null) &&
+      (trackFilter === null || note.trackId === trackFilter)),
+    [notes, tagFilter, query, searchTokens, spatialFilter, viewport, trackFilter],
+  );
+  // "Nearest" measures from the center of a near-me filter when there is one.
+  const sortOrigin = useMemo(
+    () => spatialFilter.type === 'near' ? spatialFilter.center : viewport && boundsCenter(viewport.bounds),
+    [spatialFilter, viewport],
+  );
+  const listRows = useMemo((): ListRow[] => {
+    const sorted = sortNotes(visibleNotes, sort, sortOrigin);
+    if (grouping === 'none' || sort === 'nearest') return sorted.map((note) => ({ type: 'note', note }));
+    return groupByTime(sorted, grouping, sort).flatMap(({ start, label, notes }): ListRow[] => [
+      { type: 'group', start, label, count: notes.length },
+      ...notes.map((note): ListRow => ({ type: 'note', note })),
+    ]);
+  }, [visibleNotes, sort, sortOrigin, grouping]);
+  // The day the search is narrowed to, when its date range is exactly one day.
+  const selectedDay = query.from !== null && query.from === startOfDay(query.from) && query.to === addDays(query.from, 1) - 1
+    ? query.from
+    : null;
+
+  // The note whose location is being edited gets a draggable marker of its own.
+  const locationTarget: LocationTarget | null = editingNote ? {
+    label: `#${editingNote.id}`,
+    point: noteLocation(editingNote),
+    accuracy: editingNote.accuracy,
+    picking: pickingLocation,
+    onChange: (point) => {
+      setEditingNote({ ...editingNote, ...manualLocation(point) });
+      setPickingLocation(false);
+    },
+  } : newNote ? {
+    label: 'New',
+    point: newNoteLocation && noteLocation(newNoteLocation),
+    accuracy: newNoteLocation?.accuracy ?? null,
+    picking: pickingLocation,
+    onChange: (point) => {
+      setNewNoteLocation(manualLocation(point));
+      setPickingLocation(false);
+    },
+  } : null;
+  const editingId = editingNote?.id;
+  const mapNotes = useMemo(
+    () => editingId === undefined ? visibleNotes : visibleNotes.filter((note) => note.id !== editingId),
+    [visibleNotes, editingId],
+  );
+
+  const distanceTo = (note: NoteData) => {
+    const location = noteLocation(note);
+    return spatialFilter.type === 'near' && location ? haversineDistance(spatialFilter.center, location) : null;
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter((filter) => ({
+      ...filter,
+      tags: filter.tags.includes(tag) ? filter.tags.filter((t) => t !== tag) : [...filter.tags, tag],
+    }));
+  };
+
+  const resetNewNote = () => {
+    setNewNote(false);
+    setNewNoteContent('');
+    setNewNoteTags([]);
+    setNewNoteNotebook(null);
+    setNewNoteLocation(null);
+    setNewNoteAttachments([]);
+    setNewNoteDate(null);
+    setNewNoteReminderRadius(null);
+    setPickingLocation(false);
+  };
+
+  // Names the place a note was taken at, unless the note was moved in the meantime.
+  const lookUpPlace = async (id: number, point: GeoPoint) => {
+    const place = await getGeocoder()?.reverse(point) ?? null;
+    if (!place) return null;
+    const updated = await storage.updateNote(id, (note) =>
+      note.latitude === point.latitude && note.longitude === point.longitude && note.place !== place
+        ? { ...note, place, updated: Date.now() }
+        : null);
+    if (updated) setNotes((notes) => notes.map((note) => note.id === id ? updated : note));
+    return place;
+  };
+
+  // Looked up in the background: a note without a place name is no failure.
+  const placeNote = (note: NoteData) => {
+    const point = noteLocation(note);
+    if (point && note.locationSource !== 'pending') lookUpPlace(note.id, point).catch(console.error);
+  };
+
+  const namePlace = async (note: NoteData) => {
+    const point = noteLocation(note);
+    if (!point) return;
+    try {
+      if (!await lookUpPlace(note.id, point)) setNotice({ type: 'info', text: `No place name was found for note #${note.id}.` });
+    } catch (error) {
+      reportError(error);
     }
-  }, []);
+  };
 
-  const saveNotes = (notes: Note[]) => {
-    localStorage.setItem('notes', JSON.stringify(notes));
-    localStorage.setItem('id', id.current.toString());
-    setNotes(notes);
+  // Fills in the location of a note saved before its GPS fix arrived, unless
+  // the note was deleted or given a location by hand in the meantime.
+  const locatePendingNote = async (id: number) => {
+    let location = noLocation;
+    try {
+      location = locationFromCoords(await getCurrentPosition());
+    } catch (error) {
+      console.error(error);
+      const reason = locationErrorMessage(error);
+      setNotice({ type: 'error', text: `Could not locate note #${id} (${reason}). Edit the note to set its location.` });
+    }
+    try {
+      const updated = await storage.updateNote(id, (note) => note.locationSource === 'pending' ? { ...note, ...location, updated: Date.now() } : null);
+      if (!updated) return;
+      setNotes((notes) => notes.map((note) => note.id === id ? updated : note));
+      placeNote(updated);
+      const { accuracyThreshold } = getSettings();
+      if (location.accuracy !== null && location.accuracy > accuracyThreshold) {
+        setNotice({
+          type: 'info',
+          text: `Note #${id} was only located to ±${formatDistance(location.accuracy)}, worse than the ${formatDistance(accuracyThreshold)} threshold. Edit the note to retry.`,
+        });
+      }
+    } catch (error) {
+      reportError(error);
+    }
   };
 
-  const addNote = async () => {
-    if (!newNoteContent.trim()) return;
-    let position = null;
+  // A voice memo is placed where recording started, not where the note is
+  // saved, unless the note already has a location.
+  const locateRecording = async () => {
+    if (newNoteLocation) return;
     try {
-      position = await getCurrentPosition();
+      const location = locationFromCoords(await getCurrentPosition());
+      setNewNoteLocation((current) => current ?? location);
     } catch (error) {
       console.error(error);
     }
-    const newNote: Note = {
-      id: ++id.current,
-      content: newNoteContent,
-      date: new Date().getTime(),
-      latitude: position?.latitude || null,
-      longitude: position?.longitude || null,
-    };
+  };
 
-    const updatedNotes = [newNote, ...notes];
-    saveNotes(updatedNotes);
-    setNewNoteContent('');
-    setNewNote(false)
+  const addNote = async () => {
+    if (!newNoteContent.trim() && newNoteAttachments.length === 0) return;
+    try {
+      const newNote: NoteData = {
+        id: await storage.allocateId(),
+        content: newNoteContent,
+        date: newNoteDate ?? new Date().getTime(),
+        updated: Date.now(),
+        // Without a location set by hand the note is saved right away and
+        // located in the background.
+        ...(newNoteLocation ?? pendingLocation),
+        place: null,
+        tags: newNoteTags,
+        notebook: normalizeNotebook(newNoteNotebook),
+        attachments: newNoteAttachments.map(({ info }) => info),
+        trackId: recordingId ?? null,
+        reminderRadius: newNoteReminderRadius,
+      };
+      await storage.putNote(newNote, { added: newNoteAttachments.map(({ data }) => data) });
+      setNotes((notes) => [newNote, ...notes]);
+      resetNewNote();
+      if (newNote.locationSource === 'pending') locatePendingNote(newNote.id);
+      else placeNote(newNote);
+    } catch (error) {
+      reportError(error);
+    }
   };
 
 
-  const editNote = (note: Note) => {
+  const editNote = (note: NoteData) => {
     setEditingNote(note);
+    setStagedAttachments([]);
+    setPickingLocation(false);
   };
 
-  const saveEditNote = () => {
+  const cancelEditNote = () => {
+    setEditingNote(null);
+    setStagedAttachments([]);
+    setPickingLocation(false);
+  };
+
+  const saveEditNote = async () => {
     if (!editingNote) return;
 
-    const updatedNotes = notes.map((note) =>
-      note.id === editingNote.id ? { ...note, content: editingNote.content } : note
-    );
-    saveNotes(updatedNotes);
-    setEditingNote(null);
+    const note = notes.find((note) => note.id === editingNote.id);
+    if (!note) return;
+    const moved = editingNote.locationSource !== 'pending' &&
+      (editingNote.latitude !== note.latitude || editingNote.longitude !== note.longitude);
+    const updatedNote = {
+      ...note,
+      content: editingNote.content,
+      tags: editingNote.tags,
+      notebook: normalizeNotebook(editingNote.notebook),
+      attachments: editingNote.attachments,
+      reminderRadius: editingNote.reminderRadius,
+      updated: Date.now(),
+      // A location still pending when editing started may have arrived since.
+      ...(editingNote.locationSource !== 'pending' && {
+        latitude: editingNote.latitude,
+        longitude: editingNote.longitude,
+        locationSource: editingNote.locationSource,
+        accuracy: editingNote.accuracy,
+        altitude: editingNote.altitude,
+        altitudeAccuracy: editingNote.altitudeAccuracy,
+        heading: editingNote.heading,
+        speed: editingNote.speed,
+      }),
+      place: moved ? null : note.place,
+    };
+    const kept = new Set(updatedNote.attachments.map((attachment) => attachment.id));
+    try {
+      await storage.putNote(updatedNote, {
+        added: stagedAttachments.filter((attachment) => kept.has(attachment.id)),
+        removed: note.attachments.filter((attachment) => !kept.has(attachment.id)).map((attachment) => attachment.id),
+      });
+      setNotes((notes) => notes.map((note) => note.id === updatedNote.id ? updatedNote : note));
+      cancelEditNote();
+      if (moved) placeNote(updatedNote);
+    } catch (error) {
+      reportError(error);
+    }
   };
 
-  const deleteNote = (id: number) => {
-    const updatedNotes = notes.filter((note) => note.id !== id);
-    saveNotes(updatedNotes);
+  const toggleNoteTask = async (id: number, offset: number) => {
+    try {
+      const updated = await storage.updateNote(id, (note) => ({ ...note, content: toggleTask(note.content, offset), updated: Date.now() }));
+      if (updated) setNotes((notes) => notes.map((note) => note.id === id ? updated : note));
+    } catch (error) {
+      reportError(error);
+    }
   };
 
-  const exportNotes = () => {
-    const dataStr = 'data:text/json;charset=utf-8,' + encodeURIComponent(JSON.stringify({
-      notes,
-      id: id.current,
-    }));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute('href', dataStr);
-    downloadAnchorNode.setAttribute('download', 'notes.json');
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+  // Restored notes may have been renumbered, so they are merged back by id.
+  const addRestoredNotes = (restored: NoteData[]) => {
+    setNotes((notes) => [...restored, ...notes].sort((a, b) => b.id - a.id));
+  };
+
+  const restoreFromTrash = async (ids: number[]) => {
+    try {
+      addRestoredNotes(await storage.restoreNotes(ids));
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const deleteNote = async (id: number) => {
+    try {
+      await storage.deleteNote(id);
+      setNotes((notes) => notes.filter((note) => note.id !== id));
+      if (editingNote?.id === id) cancelEditNote();
+      setUndoAction({ text: `Note #${id} moved to the trash.`, undo: () => restoreFromTrash([id]) });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const restoreRevision = async (revision: NoteRevision) => {
+    const note = notes.find((note) => note.id === revision.noteId);
+    if (!note) return;
+    const { content, tags, notebook, latitude, longitude, locationSource, accuracy, altitude, altitudeAccuracy, heading, speed } = revision;
+    const moved = latitude !== note.latitude || longitude !== note.longitude;
+    const restored: NoteData = {
+      ...note, content, tags, notebook, latitude, longitude, locationSource, accuracy, altitude, altitudeAccuracy, heading, speed,
+      place: moved ? null : note.place,
+      updated: Date.now(),
+    };
+    try {
+      await storage.putNote(restored);
+      setNotes((notes) => notes.map((note) => note.id === restored.id ? restored : note));
+      setHistoryNote(null);
+      if (moved) placeNote(restored);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // With a passphrase, the file is encrypted with it before it is saved.
+  // Only some notes can be exported, with just the tracks they were taken on.
+  const exportNotes = async (format: ExportFormat, passphrase: string | null = null, selected: NoteData[] | null = null) => {
+    const exportedNotes = selected ?? notes;
+    const exportedTracks = selected ? tracks.filter((track) => selected.some((note) => note.trackId === track.id)) : tracks;
+    let exported: { data: BlobPart, filename: string, mimeType: string, skipped: number[] };
+    try {
+      const lastId = await storage.getLastId();
+      if (format === 'bundle') {
+        const attachments = await storage.getAttachments(exportedNotes.flatMap((note) => note.attachments.map((attachment) => attachment.id)));
+        exported = { data: await createBundle(exportedNotes, lastId, attachments, exportedTracks), filename: 'notes.zip', mimeType: 'application/zip', skipped: [] };
+      } else {
+        exported = serializeNotes(exportedNotes, format, lastId, exportedTracks);
+      }
+      if (passphrase) {
+        exported = {
+          ...exported,
+          data: await encryptFile(exported.filename, exported.data, passphrase),
+          filename: `${exported.filename}.${ENCRYPTED_EXTENSION}`,
+          mimeType: 'application/json',
+        };
+      }
+    } catch (error) {
+      reportError(error);
+      return;
+    }
+    const { data, filename, mimeType, skipped } = exported;
+    downloadFile(filename, data, mimeType);
+    if (skipped.length > 0) {
+      setNotice({
+        type: 'info',
+        text: `${skipped.length} note(s) without a location were not exported: ${skipped.map((id) => `#${id}`).join(', ')}`,
+      });
+    }
   };
 
   const importNotes = () => {
     const fileInput = document.createElement('input');
     fileInput.type = 'file';
-    fileInput.accept = '.json';
+    fileInput.accept = [...noteFormats.map(({ extension }) => `.${extension}`), '.zip', `.${ENCRYPTED_EXTENSION}`].join(',');
     fileInput.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const { notes: importedNotes, id: importedId } = JSON.parse(e.target?.result as string);
-          if (Array.isArray(importedNotes) && typeof importedId === 'number') {
-            id.current = importedId;
-            saveNotes(importedNotes);
-          }
-        } catch (error) {
-          console.error(error);
-        }
-      };
-      reader.readAsText(file);
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        // The passphrase is asked for first; the file is read once it is decrypted.
+        if (isEncryptedFile(data)) setEncryptedImport(data);
+        else await previewImport(file.name, data);
+      } catch (error) {
+        reportError(error);
+      }
     };
     fileInput.click();
   }
 
-  const clearNotes = () => {
-    if (window.confirm('Are you sure you want to clear all notes?')) {
-      saveNotes([]);
-      id.current = 0;
+  const previewImport = async (filename: string, data: Uint8Array) => {
+    let parsed: ParsedNotes;
+    let attachments: AttachmentData[] = [];
+    if (filename.toLowerCase().endsWith('.zip')) {
+      ({ attachments, ...parsed } = readBundle(data));
+    } else {
+      const text = new TextDecoder().decode(data);
+      parsed = parseNotes(text, detectFormat(filename, text));
+    }
+    const plan = planMerge(notes, parsed.notes, await storage.getLastId());
+    setPendingImport({ filename, parsed, attachments, plan });
+  };
+
+  const importShared = async () => {
+    if (!pendingShare) return;
+    const { shared } = pendingShare;
+    setPendingShare(null);
+    if (pendingShare.plan.added.length === 0) return;
+    try {
+      // Planned again with a reserved id, as notes may have been saved
+      // since the link was opened and taken the id it was planned with.
+      const id = await storage.allocateId();
+      const plan = planMerge(await storage.getNotes(), [sharedNoteData(shared, id)], id);
+      const [added] = plan.added;
+      if (!added) {
+        setNotice({ type: 'info', text: 'The shared note is already in your notes.' });
+        return;
+      }
+      await storage.putNotes(plan.added, plan.lastId);
+      setNotes(await storage.getNotes());
+      placeNote(added);
+      setNotice({ type: 'info', text: `Added the shared note as #${added.id}.` });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const decryptImport = async (passphrase: string) => {
+    if (!encryptedImport) return;
+    const { name, data } = await decryptFile(encryptedImport, passphrase);
+    setEncryptedImport(null);
+    previewImport(name, data).catch(reportError);
+  };
+
+  const applyImport = async (mode: 'merge' | 'replace') => {
+    if (!pendingImport) return;
+    const { parsed, attachments, plan } = pendingImport;
+    setPendingImport(null);
+    try {
+      if (mode === 'merge') {
+        const merged = [...plan.added, ...plan.updated];
+        const used = new Set(merged.flatMap((note) => note.attachments.map((attachment) => attachment.id)));
+        await storage.putNotes(merged, plan.lastId, attachments.filter((attachment) => used.has(attachment.id)), parsed.tracks);
+      } else {
+        const importedId = Math.max(parsed.lastId ?? 0, ...parsed.notes.map((note) => note.id));
+        await storage.replaceNotes(parsed.notes, importedId, attachments, parsed.tracks);
+      }
+      setNotes(await storage.getNotes());
+      setTracks(await storage.getTracks());
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // Creates one note per photo, placed and dated from its EXIF data when the
+  // photo has any, with the photo attached.
+  const notesFromPhotos = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = 'image/*';
+    fileInput.multiple = true;
+    fileInput.onchange = async () => {
+      const files = Array.from(fileInput.files ?? []);
+      if (files.length === 0) return;
+      try {
+        const created: NoteData[] = [];
+        const attachments: AttachmentData[] = [];
+        for (const file of files) {
+          const [{ info, data }, metadata] = await Promise.all([createAttachment(file), readPhotoMetadata(file)]);
+          created.push({
+            id: await storage.allocateId(),
+            content: file.name.replace(/\.[^.]+$/, ''),
+            date: metadata.date ?? file.lastModified,
+            updated: Date.now(),
+            ...(metadata.location ? photoLocation(metadata.location) : noLocation),
+            place: null,
+            tags: tagFilter.tags,
+            notebook: tagFilter.notebook,
+            attachments: [info],
+            trackId: null,
+            reminderRadius: null,
+          });
+          attachments.push(data);
+        }
+        await storage.putNotes(created, Math.max(...created.map((note) => note.id)), attachments);
+        setNotes(await storage.getNotes());
+        created.forEach(placeNote);
+        const unlocated = created.filter((note) => !noteLocation(note)).length;
+        setNotice({
+          type: 'info',
+          text: `Created ${created.length} note(s) from photos.` +
+            (unlocated > 0 ? ` ${unlocated} photo(s) had no GPS position, so their notes have no location.` : ''),
+        });
+      } catch (error) {
+        reportError(error);
+      }
+    };
+    fileInput.click();
+  };
+
+  const startTrack = async () => {
+    const track = createTrack();
+    try {
+      await storage.putTrack(track);
+      setTracks((tracks) => [track, ...tracks]);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const stopTrack = async () => {
+    if (!recordingId) return;
+    try {
+      const updated = await storage.updateTrack(recordingId, (track) => ({ ...track, end: Date.now() }));
+      if (updated) setTracks((tracks) => tracks.map((track) => track.id === updated.id ? updated : track));
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // A single track goes out as GPX together with the notes taken along it.
+  const exportTrack = async (track: Track) => {
+    try {
+      const linked = notes.filter((note) => note.trackId === track.id);
+      const { data, mimeType } = serializeNotes(linked, 'gpx', await storage.getLastId(), [track]);
+      downloadFile(`${track.name.replace(/[^\w-]+/g, '-')}.gpx`, data, mimeType);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const deleteTrack = async (track: Track) => {
+    if (!window.confirm(`Delete ${track.name}? Its notes are kept.`)) return;
+    try {
+      await storage.deleteTrack(track.id);
+      setTracks((tracks) => tracks.filter(({ id }) => id !== track.id));
+      setNotes((notes) => notes.map((note) => note.trackId === track.id ? { ...note, trackId: null } : note));
+      if (trackFilter === track.id) setTrackFilter(null);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const clearNotes = async () => {
+    if (window.confirm('Move all notes to the trash?')) {
+      try {
+        const ids = await storage.clearNotes();
+        setNotes([]);
+        cancelEditNote();
+        setUndoAction({ text: `${ids.length} notes moved to the trash.`, undo: () => restoreFromTrash(ids) });
+      } catch (error) {
+        reportError(error);
+      }
     }
   }
 
-  const scrollToNote = (id: number) => {
-    noteRefs.current[id]?.scrollIntoView({
-      behavior: 'smooth',
-      block: 'center',
+  const startSelecting = () => {
+    cancelEditNote();
+    setSelectedIds(new Set());
+    selectionAnchor.current = null;
+  };
+
+  // A shift-click adds every listed note from the one clicked before.
+  const toggleSelected = (id: number, range: boolean) => {
+    const order = listRows.flatMap((row) => row.type === 'note' ? [row.note.id] : []);
+    setSelectedIds((selected) => {
+      const next = new Set(selected);
+      if (range) selectRange(order, selectionAnchor.current, id).forEach((id) => next.add(id));
+      else if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
     });
+    selectionAnchor.current = id;
+  };
+
+  const selectedNotes = useMemo(
+    () => selectedIds ? notes.filter((note) => selectedIds.has(note.id)) : [],
+    [notes, selectedIds],
+  );
+
+  const deleteSelected = async () => {
+    const ids = selectedNotes.map((note) => note.id);
+    try {
+      await storage.deleteNotes(ids);
+      setNotes((notes) => notes.filter((note) => !ids.includes(note.id)));
+      setSelectedIds(new Set());
+      setUndoAction({ text: `${ids.length} notes moved to the trash.`, undo: () => restoreFromTrash(ids) });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const editSelected = async (edit: BulkEdit) => {
+    setBulkEditing(false);
+    try {
+      const updated = await storage.updateNotes(selectedNotes.map((note) => note.id), (note) => applyBulkEdit(note, edit));
+      const byId = new Map(updated.map((note) => [note.id, note]));
+      setNotes((notes) => notes.map((note) => byId.get(note.id) ?? note));
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // The merged note is a new one, so undoing only needs to drop it and
+  // bring the originals back from the trash.
+  const mergeSelected = async () => {
+    const ids = selectedNotes.map((note) => note.id);
+    try {
+      const merged = combineNotes(selectedNotes, await storage.allocateId());
+      await storage.mergeNotes(merged, ids);
+      setNotes((notes) => [merged, ...notes.filter((note) => !ids.includes(note.id))]);
+      setSelectedIds(new Set([merged.id]));
+      setUndoAction({
+        text: `${ids.length} notes merged into #${merged.id}.`,
+        undo: async () => {
+          try {
+            await storage.deleteNote(merged.id);
+            await storage.purgeNotes([merged.id]);
+            setNotes((notes) => notes.filter((note) => note.id !== merged.id));
+            await restoreFromTrash(ids);
+          } catch (error) {
+            reportError(error);
+          }
+        },
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  // Only the cards near the viewport are rendered, so a notebook with
+  // thousands of notes costs no more to display than one with a dozen.
+  const virtualizer = useWindowVirtualizer({
+    count: listRows.length,
+    estimateSize: () => 160,
+    overscan: 5,
+    scrollMargin: listRef.current?.offsetTop ?? 0,
+    getItemKey: (index) => {
+      const row = listRows[index];
+      return row.type === 'group' ? `group-${row.start}` : row.note.id;
+    },
+  });
+
+  const scrollToNote = useCallback((id: number) => {
+    const index = listRows.findIndex((row) => row.type === 'note' && row.note.id === id);
+    if (index === -1) return;
+    virtualizer.scrollToIndex(index, { align: 'center' });
     setHighlightedNote(id);
     setTimeout(() => setHighlightedNote(null), 1000);
+  }, [listRows, virtualizer]);
+
+  useEffect(() => {
+    if (pendingScroll === null) return;
+    setPendingScroll(null);
+    scrollToNote(pendingScroll);
+  }, [pendingScroll, scrollToNote]);
+
+  const openNewNote = () => {
+    setNewNote(true);
+    setNewNoteNotebook(tagFilter.notebook);
+    setNewNoteTags(tagFilter.tags);
+    const addNoteTop = addNoteRef.current?.getBoundingClientRect().top;
+    if (addNoteTop && addNoteTop > window.innerHeight - 230) {
+      addNoteRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
   };
 
+  // Steps through the notes as listed, starting from the first or the last.
+  const goToNote = (step: 1 | -1) => {
+    const order = listRows.flatMap((row) => row.type === 'note' ? [row.note.id] : []);
+    if (order.length === 0) return;
+    const index = activeNote === null ? -1 : order.indexOf(activeNote);
+    const next = order[index === -1 ? (step === 1 ? 0 : order.length - 1) : Math.min(Math.max(index + step, 0), order.length - 1)];
+    setActiveNote(next);
+    scrollToNote(next);
+  };
+
+  const centerMap = async () => {
+    const note = notes.find(({ id }) => id === activeNote);
+    const point = note && note.locationSource !== 'pending' ? noteLocation(note) : null;
+    mapRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    try {
+      setMapFocus(point ? { ...point } : await getCurrentPosition());
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'commandPalette':
+        setPaletteOpen(true);
+        break;
+      case 'newNote':
+        openNewNote();
+        break;
+      case 'save':
+        if (editingNote) saveEditNote();
+        else if (newNote) addNote();
+        break;
+      case 'cancel':
+        if (editingNote) cancelEditNote();
+        else if (newNote) resetNewNote();
+        break;
+      case 'nextNote':
+        goToNote(1);
+        break;
+      case 'previousNote':
+        goToNote(-1);
+        break;
+      case 'editNote': {
+        const note = notes.find(({ id }) => id === activeNote);
+        if (note) editNote(note);
+        break;
+      }
+      case 'focusSearch':
+        searchRef.current?.focus();
+        break;
+      case 'centerMap':
+        centerMap();
+        break;
+      case 'help':
+        setShortcutsOpen(true);
+        break;
+    }
+  };
+
+  // Subscribed anew on every render, so the handlers always see the current state.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Dialogs take the keyboard for themselves.
+      if (event.defaultPrevented || document.querySelector('[role="dialog"]')) return;
+      const action = matchShortcut(event);
+      if (!action) return;
+      event.preventDefault();
+      runShortcut(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const commands: Command[] = [
+    { id: 'new', label: 'New note', shortcut: shortcutFor('newNote'), run: openNewNote },
+    { id: 'search', label: 'Search notes', shortcut: shortcutFor('focusSearch'), run: () => searchRef.current?.focus() },
+    { id: 'center', label: 'Center the map', shortcut: shortcutFor('centerMap'), run: centerMap },
+    { id: 'select', label: selectedIds ? 'Stop selecting notes' : 'Select notes', run: () => selectedIds ? setSelectedIds(null) : startSelecting() },
+    { id: 'import', label: 'Import notes from a file...', run: importNotes },
+    { id: 'photos', label: 'Create notes from geotagged photos...', run: notesFromPhotos },
+    ...noteFormats.map(({ format, label }) => ({ id: `export-${format}`, label: `Export notes as ${label}`, run: () => exportNotes(format) })),
+    { id: 'export-bundle', label: 'Export notes as a zip bundle with attachments', run: () => exportNotes('bundle') },
+    { id: 'calendar', label: calendarOpen ? 'Hide the calendar' : 'Show the calendar', run: () => setCalendarOpen(!calendarOpen) },
+    { id: 'trash', label: 'Open the trash', run: () => setTrashOpen(true) },
+    { id: 'offline-maps', label: 'Offline maps', run: () => setOfflineMapsOpen(true) },
+    { id: 'settings', label: 'Settings', run: () => setSettingsOpen(true) },
+    ...(lockState === 'unlocked' ? [{ id: 'lock', label: 'Lock the notebook', run: storage.lock }] : []),
+    { id: 'shortcuts', label: 'Keyboard shortcuts', shortcut: shortcutFor('help'), run: () => setShortcutsOpen(true) },
+  ];
+
+  const { proximityReminders } = settings;
+
+  useEffect(() => {
+    if (!proximityReminders) return;
+    startReminders();
+    return watchPosition((position) => setReminderFix(position.coords), (error) => {
+      reportError(new Error(`Proximity reminders have no GPS fix: ${locationErrorMessage(error)}`));
+    });
+  }, [proximityReminders, reportError]);
+
+  // Checked again when notes change too, so a reminder that was just set
+  // takes the current position into account.
+  useEffect(() => {
+    if (!proximityReminders || !reminderFix) return;
+    const due = dueReminders(notes, reminderFix);
+    if (due.length === 0) return;
+    setNearbyIds((ids) => [...due.map((note) => note.id), ...ids.filter((id) => !due.some((note) => note.id === id))]);
+    scrollToNote(due[0].id);
+    due.forEach((note) => notifyReminder(note, () => scrollToNote(note.id)));
+  }, [proximityReminders, reminderFix, notes, scrollToNote]);
+
+  const nearbyNotes = useMemo(
+    () => nearbyIds.map((id) => notes.find((note) => note.id === id)).filter((note): note is NoteData => note !== undefined),
+    [nearbyIds, notes],
+  );
+
   return (
     <div className="flex flex-col">
       <header className="py-4 px-6 flex items-center justify-between shadow-md z-10">
         <h1 className="text-2xl font-bold">Geo Note</h1>
         <div className='space-x-2'>
+          <SyncStatus changes={notes} onSynced={reloadNotes} onError={reportError} />
         <Button variant={"destructive"} onClick={clearNotes}>
             <TrashIcon className="w-5 h-5 md:mr-2" />
             <span className='hidden md:block'>Clear Notes</span>
           </Button>
-          <Button variant="outline" onClick={exportNotes}>
-            <ExportIcon className="w-5 h-5 md:mr-2" />
-            <span className='hidden md:block'>Export Notes</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <ExportIcon className="w-5 h-5 md:mr-2" />
+                <span className='hidden md:block'>Export Notes</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {noteFormats.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onSelect={() => exportNotes(format)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => exportNotes('bundle')}>
+                Zip bundle with attachments
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setEncryptedExport('json')}>
+                Encrypted with a passphrase...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <ImportIcon className="w-5 h-5 md:mr-2" />
+                <span className='hidden md:block'>Import Notes</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={importNotes}>From a file...</DropdownMenuItem>
+              <DropdownMenuItem onSelect={notesFromPhotos}>From geotagged photos...</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setTrashOpen(true)}>
+            <TrashIcon className="w-5 h-5 md:mr-2" />
+            <span className='hidden md:block'>Trash</span>
           </Button>
-          <Button variant="outline" onClick={importNotes}>
-            <ImportIcon className="w-5 h-5 md:mr-2" />
-            <span className='hidden md:block'>Import Notes</span>
+          <Button variant="outline" onClick={() => setOfflineMapsOpen(true)}>
+            <OfflineMapIcon className="w-5 h-5 md:mr-2" />
+            <span className='hidden md:block'>Offline Maps</span>
           </Button>
+          <Button variant="outline" onClick={() => setSettingsOpen(true)}>
+            <SettingsIcon className="w-5 h-5 md:mr-2" />
+            <span className='hidden md:block'>Settings</span>
+          </Button>
+          {lockState === 'unlocked' && (
+            <Button variant="outline" onClick={storage.lock}>
+              <LockIcon className="w-5 h-5 md:mr-2" />
+              <span className='hidden md:block'>Lock</span>
+            </Button>
+          )}
           
         </div>
       </header>
-      <div>
-        <Mapview notes={notes} onNoteClick={scrollToNote} />
+      {notice && (
+        <div className={cn(
+          "py-2 px-6 flex items-center justify-between gap-2 text-sm",
+          {
+            'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300': notice.type === 'error',
+            'bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300': notice.type === 'info',
+          }
+        )}>
+          <span>{notice.text}</span>
+          <Button size="sm" variant="ghost" onClick={() => setNotice(null)}>
+            <CancelIcon className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+      <ReminderBanner notes={nearbyNotes} onView={scrollToNote} onDismiss={() => setNearbyIds([])} />
+      <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+      <OfflineMapsDialog open={offlineMapsOpen} onOpenChange={setOfflineMapsOpen} viewport={viewport} />
+      <TrashDialog open={trashOpen} onOpenChange={setTrashOpen} onRestored={addRestoredNotes} onError={reportError} />
+      <HistoryDialog note={historyNote} onRestore={restoreRevision} onClose={() => setHistoryNote(null)} onError={reportError} />
+      <ShareDialog note={sharingNote} onClose={() => setSharingNote(null)} />
+      <SharedNoteDialog pending={pendingShare} onImport={importShared} onClose={() => setPendingShare(null)} />
+      <BulkEditDialog
+        notes={bulkEditing ? selectedNotes : null}
+        allTags={allTags}
+        allNotebooks={allNotebooks}
+        onApply={editSelected}
+        onClose={() => setBulkEditing(false)}
+      />
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        commands={commands}
+        notes={notes}
+        onSelectNote={(id) => {
+          // A note hidden by the filters cannot be scrolled to.
+          if (!visibleNotes.some((note) => note.id === id)) {
+            setQuery(emptyQuery);
+            setTagFilter({ tags: [], notebook: null });
+            setSpatialFilter({ type: 'none' });
+            setTrackFilter(null);
+          }
+          setActiveNote(id);
+          setPendingScroll(id);
+        }}
+      />
+      <ShortcutsHelp open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+      <UndoToast action={undoAction} onDismiss={dismissUndo} />
+      <ImportPreview
+        pending={pendingImport}
+        onMerge={() => applyImport('merge')}
+        onReplace={() => applyImport('replace')}
+        onCancel={() => setPendingImport(null)}
+      />
+      <PassphraseDialog
+        open={encryptedImport !== null}
+        title="Encrypted file"
+        description="This export is encrypted. Enter the passphrase it was saved with."
+        submitLabel="Decrypt"
+        onSubmit={decryptImport}
+        onClose={() => setEncryptedImport(null)}
+      />
+      <PassphraseDialog
+        open={encryptedExport !== null}
+        title="Encrypted export"
+        description="The file can only be imported again with this passphrase, on any device. It cannot be recovered without it."
+        choosing
+        submitLabel="Export"
+        onSubmit={async (passphrase) => {
+          if (!encryptedExport) return;
+          setEncryptedExport(null);
+          await exportNotes(encryptedExport, passphrase);
+        }}
+        onClose={() => setEncryptedExport(null)}
+      >
+        <select
+          className="h-10 rounded-md border border-input bg-transparent px-3 text-sm"
+          aria-label="Export format"
+          value={encryptedExport ?? 'json'}
+          onChange={(e) => setEncryptedExport(e.target.value as ExportFormat)}
+        >
+          {noteFormats.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+          <option value="bundle">Zip bundle with attachments</option>
+        </select>
+      </PassphraseDialog>
+      <div ref={mapRef}>
+        <Mapview
+          notes={mapNotes}
+          tracks={tracks}
+          // Fitting the map to notes filtered by the map's own viewport would zoom in without end.
+          fitBounds={fitBounds && spatialFilter.type !== 'viewport'}
+          spatialFilter={spatialFilter}
+          drawMode={drawMode}
+          locationTarget={locationTarget}
+          focus={mapFocus}
+          onDrawComplete={(polygon) => {
+            setDrawMode(null);
+            setSpatialFilter({ type: 'area', polygon });
+          }}
+          onViewportChange={setViewport}
+          onNoteClick={scrollToNote}
+        />
       </div>
       <main className="flex-1 overflow-auto p-6">
         <div className="grid gap-6">
-          <div className='grid grid-cols-1 md:flex justify-end items-end'>
-            <Button variant="default" ref={addNoteRef} onClick={() => {
-              setNewNote(true)
-              const addNoteTop = addNoteRef.current?.getBoundingClientRect().top
-              if (addNoteTop && addNoteTop > window.innerHeight - 230) {
-                addNoteRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
-              }
-            }}>
+          <div className='grid grid-cols-1 gap-2 md:flex justify-end items-end'>
+            {notes.length > 0 && (
+              <Button variant="outline" onClick={() => selectedIds ? setSelectedIds(null) : startSelecting()}>
+                <CheckSquareIcon className="w-4 h-4 mr-1" />
+                {selectedIds ? 'Stop Selecting' : 'Select'}
+              </Button>
+            )}
+            <Button variant="default" ref={addNoteRef} onClick={openNewNote}>
               <PlusIcon className="w-4 h-4 mr-1" />
               New Note
             </Button>
           </div>
           {newNote && <div className="grid w-full gap-2">
-            <Textarea
+            <MarkdownEditor
               rows={Math.max(5, newNoteContent.split('\n').length + 1)}
               value={newNoteContent}
-              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewNoteContent(e.target.value)}
-              placeholder="Type your new note here..."
+              onChange={setNewNoteContent}
+              placeholder="Type your new note here... Markdown is supported."
+              autoFocus
+            />
+            <NoteMetaFields
+              tags={newNoteTags}
+              notebook={newNoteNotebook}
+              allTags={allTags}
+              allNotebooks={allNotebooks}
+              onChange={({ tags, notebook }) => {
+                setNewNoteTags(tags)
+                setNewNoteNotebook(notebook)
+              }}
             />
+            <AttachmentField
+              attachments={newNoteAttachments.map(({ info }) => info)}
+              staged={newNoteAttachments.map(({ data }) => data)}
+              hasLocation={newNoteLocation !== null && noteLocation(newNoteLocation) !== null}
+              onAdd={(added) => setNewNoteAttachments((attachments) => [...attachments, ...added])}
+              onRemove={(id) => setNewNoteAttachments((attachments) => attachments.filter(({ info }) => info.id !== id))}
+              onUsePhoto={({ location, date }) => {
+                if (location) setNewNoteLocation(photoLocation(location))
+                if (date !== null) setNewNoteDate(date)
+              }}
+              onError={reportError}
+            >
+              <VoiceRecorder
+                onStart={locateRecording}
+                onRecorded={(attachment) => setNewNoteAttachments((attachments) => [...attachments, attachment])}
+                onError={reportError}
+              />
+            </AttachmentField>
+            <LocationEditor
+              location={newNoteLocation}
+              picking={pickingLocation && !editingNote}
+              onPickingChange={(picking) => {
+                setPickingLocation(picking)
+                if (picking) setDrawMode(null)
+              }}
+              onChange={setNewNoteLocation}
+              onError={reportError}
+            />
+            <ReminderRadiusSelect radius={newNoteReminderRadius} onChange={setNewNoteReminderRadius} />
             <div className='grid grid-cols-2 gap-2 md:flex md:justify-end'>
               <Button onClick={addNote} variant={"default"}>
                 <SaveIcon className="w-4 h-4 mr-2" />
                 Save
               </Button>
-              <Button onClick={() => {
-                setNewNote(false)
-                setNewNoteContent('')
-              }} variant={"outline"}>
+              <Button onClick={resetNewNote} variant={"outline"}>
                 <CancelIcon className="w-4 h-4 mr-2" />
                 Cancel
               </Button>
             </div>
           </div>}
-          <div className="grid gap-4">
-            {notes.map((note) => (
-              <Card className={cn(
-                "p-4 flex flex-col gap-2 group",
-                {
-                  'bg-gray-100 dark:bg-gray-800': highlightedNote === note.id,
-                  'bg-white dark:bg-gray-900': highlightedNote !== note.id,
-                }
-              )} key={note.id} ref={(el) => noteRefs.current[note.id] = el}>
-                <div className="grid grid-cols-1 space-y-2 md:flex md:items-center md:justify-between">
-                  <div className="flex items-center gap-2">
-                    <NotebookIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-                    <span className="font-medium">Note #{note.id}</span>
-                  </div>
-                  <div className="md:flex md:space-x-4">
-                    {note.latitude && note.longitude && (
-                      <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
-                        <LocateIcon className="w-4 h-4" />
-                        <span className='select-all'>{note.latitude?.toFixed(6)}, {note.longitude?.toFixed(6)}</span>
-                      </div>)}
-                    <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
-                      <CalendarDaysIcon className="w-4 h-4" />
-                      <span>{new Date(note.date).toLocaleString()}</span>
+          <TracksPanel
+            tracks={tracks}
+            notes={notes}
+            trackFilter={trackFilter}
+            onStart={startTrack}
+            onStop={stopTrack}
+            onExport={exportTrack}
+            onDelete={deleteTrack}
+            onFilter={setTrackFilter}
+          />
+          {notes.length > 0 && (
+            <SearchBar
+              inputRef={searchRef}
+              query={query}
+              onChange={setQuery}
+              fitBounds={fitBounds}
+              onFitBoundsChange={setFitBounds}
+              resultCount={visibleNotes.length}
+              totalCount={notes.length}
+            />
+          )}
+          {notes.length > 0 && (
+            <SpatialFilterBar
+              filter={spatialFilter}
+              onChange={setSpatialFilter}
+              drawMode={drawMode}
+              onDrawModeChange={setDrawMode}
+              onError={reportError}
+            />
+          )}
+          {(allTags.length > 0 || allNotebooks.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {allNotebooks.length > 0 && (
+                <select
+                  className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+                  value={tagFilter.notebook ?? ''}
+                  onChange={(e) => setTagFilter({ ...tagFilter, notebook: e.target.value || null })}
+                >
+                  <option value="">All notebooks</option>
+                  {allNotebooks.map((name) => <option key={name} value={name}>{name}</option>)}
+                </select>
+              )}
+              {allTags.map((tag) => (
+                <TagChip key={tag} tag={tag} active={tagFilter.tags.includes(tag)} onClick={() => toggleTagFilter(tag)} />
+              ))}
+            </div>
+          )}
+          {notes.length > 0 && (
+            <TimelineBar
+              sort={sort}
+              onSortChange={setSort}
+              grouping={grouping}
+              onGroupingChange={setGrouping}
+              calendarOpen={calendarOpen}
+              onCalendarOpenChange={setCalendarOpen}
+            />
+          )}
+          {notes.length > 0 && calendarOpen && (
+            <ActivityCalendar
+              notes={notes}
+              selectedDay={selectedDay}
+              onSelectDay={(day) => setQuery({ ...query, from: day, to: day === null ? null : addDays(day, 1) - 1 })}
+            />
+          )}
+          {selectedIds && (
+            <SelectionBar
+              count={selectedNotes.length}
+              onSelectAll={() => setSelectedIds(new Set(visibleNotes.map((note) => note.id)))}
+              onSelectInView={() => setSelectedIds(new Set(visibleNotes
+                .filter((note) => matchesSpatialFilter(note, { type: 'viewport' }, viewport?.bounds ?? null))
+                .map((note) => note.id)))}
+              onClear={() => setSelectedIds(new Set())}
+              onDelete={deleteSelected}
+              onExport={(format) => exportNotes(format, null, selectedNotes)}
+              onEdit={() => setBulkEditing(true)}
+              onMerge={mergeSelected}
+              onDone={() => setSelectedIds(null)}
+            />
+          )}
+          <div>
+            <div ref={listRef} className="relative" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map((item) => {
+                const row = listRows[item.index];
+                if (row.type === 'group') {
+                  return (
+                    <div
+                      key={item.key}
+                      data-index={item.index}
+                      ref={virtualizer.measureElement}
+                      className="absolute top-0 left-0 w-full pb-2 pt-2"
+                      style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+                    >
+                      <h2 className="flex items-baseline justify-between border-b pb-1 font-medium">
+                        {row.label}
+                        <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                          {row.count} {row.count === 1 ? 'note' : 'notes'}
+                        </span>
+                      </h2>
                     </div>
+                  );
+                }
+                const { note } = row;
+                return (
+                  <div
+                    key={item.key}
+                    data-index={item.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full pb-4"
+                    style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+                  >
+                    <Card className={cn(
+                      "p-4 flex flex-col gap-2 group",
+                      {
+                        'bg-gray-100 dark:bg-gray-800': highlightedNote === note.id,
+                        'bg-white dark:bg-gray-900': highlightedNote !== note.id,
+                        'ring-2 ring-ring': activeNote === note.id,
+                        'ring-2 ring-primary': selectedIds?.has(note.id),
+                      }
+                    )}>
+                      <div className="grid grid-cols-1 space-y-2 md:flex md:items-center md:justify-between">
+                        <div className="flex items-center gap-2">
+                          {selectedIds && (
+                            <input
+                              type="checkbox"
+                              className="w-4 h-4"
+                              aria-label={`Select note #${note.id}`}
+                              checked={selectedIds.has(note.id)}
+                              readOnly
+                              onClick={(e) => toggleSelected(note.id, e.shiftKey)}
+                            />
+                          )}
+                          <NotebookIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+                          <span className="font-medium">Note #{note.id}</span>
+                        </div>
+                        <div className="md:flex md:space-x-4">
+                          {distanceTo(note) !== null && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                              <span>{formatDistance(distanceTo(note)!)} away</span>
+                            </div>)}
+                          {note.locationSource === 'pending' && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                              <LocateIcon className="w-4 h-4 animate-pulse" />
+                              <span>Locating...</span>
+                            </div>)}
+                          {noteLocation(note) && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                              <LocateIcon className="w-4 h-4" />
+                              {note.place
+                                ? <span title={formatCoordinates(noteLocation(note)!)}>{note.place}</span>
+                                : <span className='select-all'>{note.latitude?.toFixed(6)}, {note.longitude?.toFixed(6)}</span>}
+                              {note.locationSource === 'manual' && <span>(set by hand)</span>}
+                              {note.locationSource === 'gps' && note.accuracy !== null && (
+                                <span className={cn({ 'text-amber-600 dark:text-amber-400': note.accuracy > settings.accuracyThreshold })}>
+                                  ±{formatDistance(note.accuracy)}
+                                </span>
+                              )}
+                              {note.place === null && settings.geocoder && (
+                                <button type="button" className="underline hover:text-foreground" onClick={() => namePlace(note)}>
+                                  Name place
+                                </button>
+                              )}
+                            </div>)}
+                          {note.locationSource === 'gps' && describeMotion(note) && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                              <span>{describeMotion(note)}</span>
+                            </div>)}
+                          {note.reminderRadius !== null && noteLocation(note) && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400" title="Proximity reminder">
+                              <BellIcon className="w-4 h-4" />
+                              <span>{formatDistance(note.reminderRadius)}</span>
+                            </div>)}
+                          {note.trackId && trackNames.has(note.trackId) && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                              <span>On {trackNames.get(note.trackId)}</span>
+                            </div>)}
+                          <div className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                            <CalendarDaysIcon className="w-4 h-4" />
+                            <span>{new Date(note.date).toLocaleString()}</span>
+                          </div>
+                        </div>
+                      </div>
+                      {editingNote && editingNote.id === note.id ? (
+                        <div className="grid gap-2 my-2">
+                          <MarkdownEditor
+                            rows={editingNote.content.split('\n').length + 1}
+                            value={editingNote.content}
+                            onChange={(content) => setEditingNote({ ...editingNote, content })}
+                            autoFocus
+                          />
+                          <NoteMetaFields
+                            tags={editingNote.tags}
+                            notebook={editingNote.notebook}
+                            allTags={allTags}
+                            allNotebooks={allNotebooks}
+                            onChange={(meta) => setEditingNote({ ...editingNote, ...meta })}
+                          />
+                          <AttachmentField
+                            attachments={editingNote.attachments}
+                            staged={stagedAttachments}
+                            hasLocation={noteLocation(editingNote) !== null}
+                            onAdd={(added) => {
+                              setStagedAttachments((staged) => [...staged, ...added.map(({ data }) => data)])
+                              setEditingNote((editing) => editing && { ...editing, attachments: [...editing.attachments, ...added.map(({ info }) => info)] })
+                            }}
+                            onRemove={(id) => setEditingNote({ ...editingNote, attachments: editingNote.attachments.filter((attachment) => attachment.id !== id) })}
+                            onUsePhoto={({ location }) => {
+                              if (location) setEditingNote((editing) => editing && { ...editing, ...photoLocation(location) })
+                            }}
+                            onError={reportError}
+                          />
+                          <LocationEditor
+                            location={editingNote}
+                            picking={pickingLocation}
+                            onPickingChange={(picking) => {
+                              setPickingLocation(picking)
+                              if (picking) setDrawMode(null)
+                            }}
+                            onChange={(location) => setEditingNote({ ...editingNote, ...location })}
+                            onError={reportError}
+                          />
+                          <ReminderRadiusSelect
+                            radius={editingNote.reminderRadius}
+                            onChange={(reminderRadius) => setEditingNote({ ...editingNote, reminderRadius })}
+                          />
+                        </div>
+                      ) : (
+                        <>
+                          <div className='text-gray-500 dark:text-gray-400 pt-2'>
+                            {note.content
+                              ? <Markdown content={note.content} tokens={searchTokens} onToggleTask={(offset) => toggleNoteTask(note.id, offset)} />
+                              : note.attachments.length === 0 && <span className="italic">Empty note</span>}
+                          </div>
+                          <AttachmentList attachments={note.attachments} className="my-2" />
+                          {(note.notebook || note.tags.length > 0) && (
+                            <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                              {note.notebook && <span className="font-medium mr-1">{note.notebook}</span>}
+                              {note.tags.map((tag) => (
+                                <TagChip key={tag} tag={tag} active={tagFilter.tags.includes(tag)} onClick={() => toggleTagFilter(tag)} />
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      )}
+                      <div className="mt-2 flex items-center justify-end gap-2">
+                        {editingNote && editingNote.id === note.id ? (
+                          <Button size="sm" onClick={saveEditNote}>
+                            <SaveIcon className="w-4 h-4 mr-2" />
+                            Save
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => editNote(note)}>
+                            <PencilIcon className="w-4 h-4 mr-2" />
+                            Edit
+                          </Button>
+                        )}
+                        {!(editingNote && editingNote.id === note.id) && (
+                          <Button size="sm" variant="outline" onClick={() => setHistoryNote(note)}>
+                            <HistoryIcon className="w-4 h-4 mr-2" />
+                            History
+                          </Button>
+                        )}
+                        {!(editingNote && editingNote.id === note.id) && (
+                          <Button size="sm" variant="outline" onClick={() => setSharingNote(note)}>
+                            <ShareIcon className="w-4 h-4 mr-2" />
+                            Share
+                          </Button>
+                        )}
+                        {editingNote && editingNote.id === note.id ? (
+                          <Button size="sm" variant="outline" onClick={cancelEditNote}>
+                            <CancelIcon className="w-4 h-4 mr-2" />
+                            Cancel
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant={"destructive"} onClick={() => deleteNote(note.id)}>
+                            <TrashIcon className="w-4 h-4 mr-2" />
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </Card>
                   </div>
-                </div>
-                {editingNote && editingNote.id === note.id ? (
-                  <Textarea
-                    rows={editingNote.content.split('\n').length + 1}
-                    value={editingNote.content}
-                    className='my-2'
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setEditingNote({ ...editingNote, content: e.target.value })}
-                  />
-                ) : (
-                  <pre className='text-gray-500 dark:text-gray-400 pt-2 font-sans whitespace-pre-wrap'>
-                    {note.content ? note.content : <span className="italic">Empty note</span>}
-                  </pre>
-                )}
-                <div className="mt-2 flex items-center justify-end gap-2">
-                  {editingNote && editingNote.id === note.id ? (
-                    <Button size="sm" onClick={saveEditNote}>
-                      <SaveIcon className="w-4 h-4 mr-2" />
-                      Save
-                    </Button>
-                  ) : (
-                    <Button size="sm" variant="outline" onClick={() => editNote(note)}>
-                      <PencilIcon className="w-4 h-4 mr-2" />
-                      Edit
-                    </Button>
-                  )}
-                  {editingNote && editingNote.id === note.id ? (
-                    <Button size="sm" variant="outline" onClick={() => setEditingNote(null)}>
-                      <CancelIcon className="w-4 h-4 mr-2" />
-                      Cancel
-                    </Button>
-                  ) : (
-                    <Button size="sm" variant={"destructive"} onClick={() => deleteNote(note.id)}>
-                      <TrashIcon className="w-4 h-4 mr-2" />
-                      Delete
-                    </Button>
-                  )}
-                </div>
-              </Card>
-            ))}
+                );
+              })}
+            </div>
             {notes.length === 0 && (
               <div className="text-center text-gray-500 dark:text-gray-400 my-24">
                 No notes found. Click on "New Note" to add a new note.
               </div>
             )}
+            {notes.length > 0 && visibleNotes.length === 0 && (
+              <div className="text-center text-gray-500 dark:text-gray-400 my-24">
+                No notes match the current search and filters.
+              </div>
+            )}
           </div>
         </div>
       </main>
@@ -296,118 +1481,6 @@ export const Note: React.FC = () => {
   );
 };
 
-const CenterControl = ({ getCenter }: { getCenter: () => Promise<L.LatLngExpression> }) => {
-  const map = useMap();
-
-  const handleClick = async () => {
-    map.setView(await getCenter(), 17);
-  };
-
-  // @ts-expect-error - Leaflet Control
-  L.Control.CenterButton = L.Control.extend({
-    onAdd: function () {
-      const btn = L.DomUtil.create('button', 'leaflet-bar');
-      btn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 576 512" class="h-4" style="padding: 0px 0px">
-          <path d="M575.8 255.5c0 18-15 32.1-32 32.1h-32l.7 160.2c0 2.7-.2 5.4-.5 8.1V472c0 22.1-17.9 40-40 40H456c-1.1 0-2.2 0-3.3-.1c-1.4 .1-2.8 .1-4.2 .1H416 392c-22.1 0-40-17.9-40-40V448 384c0-17.7-14.3-32-32-32H256c-17.7 0-32 14.3-32 32v64 24c0 22.1-17.9 40-40 40H160 128.1c-1.5 0-3-.1-4.5-.2c-1.2 .1-2.4 .2-3.6 .2H104c-22.1 0-40-17.9-40-40V360c0-.9 0-1.9 .1-2.8V287.6H32c-18 0-32-14-32-32.1c0-9 3-17 10-24L266.4 8c7-7 15-8 22-8s15 2 21 7L564.8 231.5c8 7 12 15 11 24z"/>
-        </svg>`;
-      btn.style.backgroundColor = 'white';
-      btn.style.border = '2px solid rgba(0,0,0,0.2)';
-      btn.style.cursor = 'pointer';
-      btn.style.padding = '5px 6px';
-
-      btn.onclick = handleClick;
-
-      return btn;
-    },
-    onRemove: function () {
-    }
-  });
-
-  // @ts-expect-error - Leaflet Control
-  L.control.centerButton = function (opts) {
-    // @ts-expect-error - Leaflet Control
-    return new L.Control.CenterButton(opts);
-  }
-
-  useEffect(() => {
-    // @ts-expect-error - Leaflet Control
-    const control = L.control.centerButton({ position: 'topleft' }).addTo(map);
-    return () => {
-      map.removeControl(control);
-    };
-  }, [map]);
-
-  return null;
-};
-
-function Mapview({ notes, onNoteClick }: { notes: Note[], onNoteClick: (id: number) => void }) {
-  const [c, setC] = useState<GeolocationCoordinates | null>(null);
-  const [e, setE] = useState<Error | null>(null);
-  async function updateLocation() {
-    try {
-      const position = await getCurrentPosition();
-      setC(position);
-    } catch (error) {
-      setE(error as Error);
-    }
-  }
-  useEffect(() => {
-    updateLocation();
-  }, []);
-  if (e) {
-    return <div>Error: {e.message}</div>
-  }
-  if (!c) {
-    return <div className='flex items-center justify-center h-96 md:h-[70vh]'>
-      Loading...
-    </div>
-  }
-  const center = [c.latitude, c.longitude] as L.LatLngExpression;
-  return (
-    <MapContainer center={center} zoom={17} className="h-96 md:h-[70vh]">
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      />
-      <CenterControl getCenter={async () => {
-        const position = await getCurrentPosition();
-        return [position.latitude, position.longitude];
-      }}/>
-      {notes.map((note) => (
-        note.latitude && note.longitude &&
-        <Marker
-          key={note.id}
-          position={[note.latitude, note.longitude]}
-          icon={L.divIcon({
-            className: 'custom-icon',
-            html: `
-              <div class="marker-container">
-                <img src="https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png" class="marker-icon" />
-                <img src="https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png" class="marker-shadow" />
-                <div class="marker-id" onclick="handleNoteClick(${note.id})">${note.id}</div>
-              </div>
-            `,
-            iconSize: [25, 41],
-            iconAnchor: [12, 41],
-            popupAnchor: [1, -40],
-          })}
-        >
-          <Popup>
-            <div className='max-w-[150px]'>
-              <strong onClick={() => onNoteClick(note.id)} className="cursor-pointer underline text-blue-500 dark:text-blue-300 block mb-1">
-                Note #{note.id}
-              </strong>
-              <p style={{ margin: 0 }}>
-                {note.content.length > 20 ? `${note.content.substring(0, 20)}...` : note.content}
-              </p>
-            </div>
-          </Popup>
-        </Marker>
-      ))}
-    </MapContainer>)
-}
-
-
 function SaveIcon(props: React.SVGProps<SVGSVGElement>) {
   return (
     <svg
@@ -608,3 +1681,128 @@ function TrashIcon(props: React.SVGProps<SVGSVGElement>) {
     </svg>
   )
 }
+
+function SettingsIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z" />
+      <circle cx="12" cy="12" r="3" />
+    </svg>
+  )
+}
+
+function OfflineMapIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M14.106 5.553a2 2 0 0 0 1.788 0l3.659-1.83A1 1 0 0 1 21 4.619v12.764a1 1 0 0 1-.553.894l-4.553 2.277a2 2 0 0 1-1.788 0l-4.212-2.106a2 2 0 0 0-1.788 0l-3.659 1.83A1 1 0 0 1 3 19.381V6.618a1 1 0 0 1 .553-.894l4.553-2.277a2 2 0 0 1 1.788 0z" />
+      <path d="M15 5.764v15" />
+      <path d="M9 3.236v15" />
+    </svg>
+  )
+}
+
+function HistoryIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+      <path d="M3 3v5h5" />
+      <path d="M12 7v5l4 2" />
+    </svg>
+  )
+}
+
+function LockIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+      <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+    </svg>
+  )
+}
+
+function ShareIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="18" cy="5" r="3" />
+      <circle cx="6" cy="12" r="3" />
+      <circle cx="18" cy="19" r="3" />
+      <line x1="8.59" x2="15.42" y1="13.51" y2="17.49" />
+      <line x1="15.41" x2="8.59" y1="6.51" y2="10.49" />
+    </svg>
+  )
+}
+
+function CheckSquareIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="m9 11 3 3L22 4" />
+      <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+    </svg>
+  )
+}
@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import type { MapViewport } from '@/components/mapview';
+import { formatSize } from '@/lib/attachments';
+import {
+  clearBrowsedTiles,
+  deleteOfflineArea,
+  downloadArea,
+  estimateArea,
+  getOfflineAreas,
+  MAX_AREA_TILES,
+  offlineSupported,
+  storageEstimate,
+  type DownloadProgress,
+  type OfflineArea,
+} from '@/lib/offline-maps';
+import { useBaseLayer } from '@/lib/theme';
+
+// Zooming in further rarely shows anything new, and each level is four times the tiles.
+const DEFAULT_EXTRA_ZOOM = 3;
+
+const clampZoom = (zoom: number, maxZoom: number) => Math.min(maxZoom, Math.max(0, Math.round(zoom)));
+
+/**
+ * Downloads the tiles of the current base layer and viewport for offline use
+ * and lists the areas downloaded before, so they can be deleted again.
+ */
+export function OfflineMapsDialog({ open, onOpenChange, viewport }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+  viewport: MapViewport | null,
+}) {
+  const [areas, setAreas] = useState<OfflineArea[]>(getOfflineAreas);
+  const [name, setName] = useState<string>('');
+  const [minZoom, setMinZoom] = useState<number>(0);
+  const [maxZoom, setMaxZoom] = useState<number>(0);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [storage, setStorage] = useState<{ usage: number, quota: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const layer = useBaseLayer();
+
+  const refreshStorage = () => {
+    storageEstimate().then(setStorage).catch(console.error);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setAreas(getOfflineAreas());
+    setMessage(null);
+    setName(`Area saved ${new Date().toLocaleDateString()}`);
+    refreshStorage();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !viewport) return;
+    setMinZoom(clampZoom(viewport.zoom, layer.maxZoom));
+    setMaxZoom(clampZoom(viewport.zoom + DEFAULT_EXTRA_ZOOM, layer.maxZoom));
+  }, [open, viewport, layer.maxZoom]);
+
+  // Closing the dialog cancels a download in progress.
+  useEffect(() => {
+    if (!open) abortRef.current?.abort();
+  }, [open]);
+
+  // WMS maps are drawn per bounding box, so there is no fixed set of tiles to fetch.
+  const downloadable = layer.type === 'xyz';
+  const validRange = minZoom <= maxZoom;
+  const estimate = viewport && validRange ? estimateArea(viewport.bounds, minZoom, maxZoom) : null;
+  const tooLarge = estimate !== null && estimate.tiles > MAX_AREA_TILES;
+
+  const download = async () => {
+    if (!viewport) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+    setProgress({ done: 0, total: estimate?.tiles ?? 0, failed: 0 });
+    try {
+      const area = await downloadArea(
+        { name: name.trim() || 'Offline area', bounds: viewport.bounds, minZoom, maxZoom, layer },
+        { onProgress: setProgress, signal: controller.signal },
+      );
+      setAreas(getOfflineAreas());
+      const failed = area.tiles < estimate!.tiles ? ` ${estimate!.tiles - area.tiles} tiles could not be downloaded.` : '';
+      setMessage(`Saved ${area.tiles} tiles (${formatSize(area.bytes)}) for offline use.${failed}`);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(error);
+        setMessage(error instanceof Error ? error.message : 'The download failed.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshStorage();
+    }
+  };
+
+  const removeArea = async (id: string) => {
+    await deleteOfflineArea(id);
+    setAreas(getOfflineAreas());
+    refreshStorage();
+  };
+
+  const clearBrowsed = async () => {
+    await clearBrowsedTiles();
+    setMessage('Cleared the tiles cached while browsing.');
+    refreshStorage();
+  };
+
+  const zoomInput = (value: number, onChange: (value: number) => void) => (
+    <Input
+      type="number"
+      min={0}
+      max={layer.maxZoom}
+      value={value}
+      disabled={progress !== null}
+      onChange={(e) => onChange(clampZoom(Number(e.target.value), layer.maxZoom))}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offline maps</DialogTitle>
+          <DialogDescription>
+            Download the {layer.name} map of the area currently shown, so it can be viewed without a connection.
+          </DialogDescription>
+        </DialogHeader>
+        {!offlineSupported() ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">This browser cannot store maps for offline use.</p>
+        ) : (
+          <div className="grid gap-4 text-sm">
+            <label className="grid gap-1">
+              <span className="font-medium">Name</span>
+              <Input value={name} disabled={progress !== null} onChange={(e) => setName(e.target.value)} />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="grid gap-1">
+                <span className="font-medium">From zoom</span>
+                {zoomInput(minZoom, setMinZoom)}
+              </label>
+              <label className="grid gap-1">
+                <span className="font-medium">To zoom</span>
+                {zoomInput(maxZoom, setMaxZoom)}
+              </label>
+            </div>
+            <p className={tooLarge || !validRange ? 'text-red-700 dark:text-red-300' : 'text-gray-500 dark:text-gray-400'}>
+              {!validRange
+                ? 'The first zoom level must not be above the last.'
+                : estimate && `${estimate.tiles} tiles, about ${formatSize(estimate.bytes)}.`}
+              {tooLarge && ` At most ${MAX_AREA_TILES} tiles can be downloaded at once; zoom in or lower the last zoom level.`}
+            </p>
+            {progress ? (
+              <div className="grid gap-2">
+                <div className="h-2 overflow-hidden rounded-full bg-muted">
+                  <div className="h-full bg-primary" style={{ width: `${progress.total ? progress.done / progress.total * 100 : 0}%` }} />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span>Downloaded {progress.done} of {progress.total} tiles</span>
+                  <Button size="sm" variant="outline" onClick={() => abortRef.current?.abort()}>Cancel</Button>
+                </div>
+              </div>
+            ) : (
+              <Button onClick={download} disabled={!downloadable || !viewport || !estimate || tooLarge}>Download this area</Button>
+            )}
+            {!downloadable && (
+              <p className="text-gray-500 dark:text-gray-400">WMS layers cannot be downloaded; switch to another layer first.</p>
+            )}
+            {message && <p>{message}</p>}
+            <div className="grid gap-2">
+              <span className="font-medium">Saved areas</span>
+              {areas.length === 0 && <span className="text-gray-500 dark:text-gray-400">No areas downloaded yet.</span>}
+              {areas.map((area) => (
+                <div key={area.id} className="flex items-center justify-between gap-2">
+                  <div>
+                    <div>{area.name}</div>
+                    <div className="text-gray-500 dark:text-gray-400">
+                      {area.layer && `${area.layer}, `}zoom {area.minZoom}&ndash;{area.maxZoom}, {area.tiles} tiles, {formatSize(area.bytes)}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" disabled={progress !== null} onClick={() => removeArea(area.id)}>
+                    Delete
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-500 dark:text-gray-400">
+                {storage && `Using ${formatSize(storage.usage)} of ${formatSize(storage.quota)} available to this site.`}
+              </span>
+              <Button size="sm" variant="outline" disabled={progress !== null} onClick={clearBrowsed}>
+                Clear browsed tiles
+              </Button>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
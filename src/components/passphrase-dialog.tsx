@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { checkNewPassphrase } from '@/lib/crypto';
+
+/**
+ * Asks for a passphrase, twice when `choosing` a new one. `onSubmit` may
+ * reject, e.g. for a wrong passphrase; its message is shown and the dialog
+ * stays open for another try.
+ */
+export function PassphraseDialog({ open, title, description, choosing = false, submitLabel, onSubmit, onClose, children }: {
+  open: boolean,
+  title: string,
+  description: React.ReactNode,
+  choosing?: boolean,
+  submitLabel: string,
+  onSubmit: (passphrase: string) => Promise<void>,
+  onClose: () => void,
+  /** Extra fields shown above the passphrase. */
+  children?: React.ReactNode,
+}) {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [repeated, setRepeated] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPassphrase('');
+    setRepeated('');
+    setError(null);
+  }, [open]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = choosing ? checkNewPassphrase(passphrase, repeated) : null;
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <form className="grid gap-4" onSubmit={submit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 text-sm">
+            {children}
+            <Input
+              type="password"
+              autoFocus
+              autoComplete={choosing ? 'new-password' : 'current-password'}
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {choosing && (
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Repeat the passphrase"
+                value={repeated}
+                onChange={(e) => setRepeated(e.target.value)}
+              />
+            )}
+            {error && <span className="text-red-700 dark:text-red-300">{error}</span>}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={busy || passphrase === ''}>{busy ? 'Working...' : submitLabel}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getGeocoder, type Place } from '@/lib/geocoding';
+import { cn } from '@/lib/utils';
+
+/**
+ * Finds places by name to move the map to. Searches run when the form is
+ * submitted, never while typing: Nominatim's usage policy forbids
+ * autocomplete against its public server.
+ */
+export function PlaceSearch({ className, onSelect, onClear }: {
+  className?: string,
+  onSelect: (place: Place) => void,
+  onClear: () => void,
+}) {
+  const [query, setQuery] = useState<string>('');
+  const [results, setResults] = useState<Place[] | null>(null);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const geocoder = getGeocoder();
+    if (!geocoder || !query.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const places = await geocoder.search(query);
+      // A single match needs no choosing.
+      if (places.length === 1) {
+        onSelect(places[0]);
+        setResults(null);
+      } else {
+        setResults(places);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+      setResults(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const clear = () => {
+    setQuery('');
+    setResults(null);
+    setError(null);
+    onClear();
+  };
+
+  return (
+    <div className={cn('text-sm', className)}>
+      <form className="flex gap-1" onSubmit={search}>
+        <Input
+          className="h-9 bg-background"
+          type="search"
+          placeholder="Search places..."
+          aria-label="Search places"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            if (!e.target.value) clear();
+          }}
+        />
+        <Button type="submit" size="sm" variant="outline" className="h-9 bg-background" disabled={searching || !query.trim()}>
+          {searching ? '...' : 'Go'}
+        </Button>
+      </form>
+      {(results || error) && (
+        <ul className="mt-1 rounded-md border bg-popover text-popover-foreground shadow-md py-1">
+          {error && <li className="px-3 py-1 text-red-700 dark:text-red-300">{error}</li>}
+          {results?.length === 0 && <li className="px-3 py-1 text-gray-500 dark:text-gray-400">No places found.</li>}
+          {results?.map((place) => (
+            <li key={`${place.label} ${place.point.latitude} ${place.point.longitude}`}>
+              <button
+                type="button"
+                className="w-full px-3 py-1 text-left hover:bg-accent"
+                onClick={() => {
+                  onSelect(place);
+                  setResults(null);
+                }}
+              >
+                {place.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
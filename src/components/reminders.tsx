@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { formatDistance } from '@/lib/geo';
+import { excerpt } from '@/lib/markdown';
+import { REMINDER_RADII } from '@/lib/reminders';
+import { useSettings } from '@/lib/settings';
+import type { NoteData } from '@/lib/types';
+
+/** Picks how near a note has to be to remind of it, or turns its reminder off. */
+export function ReminderRadiusSelect({ radius, onChange }: {
+  radius: number | null,
+  onChange: (radius: number | null) => void,
+}) {
+  const { proximityReminders } = useSettings();
+  // A radius from an imported file may not be one of the usual choices.
+  const radii = radius === null || REMINDER_RADII.includes(radius) ? REMINDER_RADII : [...REMINDER_RADII, radius].sort((a, b) => a - b);
+  return (
+    <label className="flex flex-wrap items-center gap-2 text-sm">
+      <BellIcon className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+      Remind me
+      <select
+        className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+        value={radius ?? ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      >
+        <option value="">never</option>
+        {radii.map((radius) => <option key={radius} value={radius}>within {formatDistance(radius)}</option>)}
+      </select>
+      {radius !== null && !proximityReminders && (
+        <span className="text-gray-500 dark:text-gray-400">Turn on proximity reminders in the settings for this to work.</span>
+      )}
+    </label>
+  );
+}
+
+/** Tells which notes with a reminder are close by. */
+export function ReminderBanner({ notes, onView, onDismiss }: {
+  notes: NoteData[],
+  onView: (id: number) => void,
+  onDismiss: () => void,
+}) {
+  if (notes.length === 0) return null;
+  return (
+    <div role="status" className="py-2 px-6 flex items-center justify-between gap-2 text-sm bg-amber-50 text-amber-800 dark:bg-amber-950 dark:text-amber-300">
+      <div className="flex flex-wrap items-center gap-2 min-w-0">
+        <BellIcon className="w-4 h-4 shrink-0" />
+        <span>You are near</span>
+        {notes.map((note) => (
+          <Button key={note.id} size="sm" variant="outline" className="h-7 max-w-[16rem] truncate" onClick={() => onView(note.id)}>
+            #{note.id}{note.content.trim() && `: ${excerpt(note.content, 40, 1)}`}
+          </Button>
+        ))}
+      </div>
+      <Button size="sm" variant="ghost" onClick={onDismiss}>Dismiss</Button>
+    </div>
+  );
+}
+
+export function BellIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9" />
+      <path d="M10.3 21a1.94 1.94 0 0 0 3.4 0" />
+    </svg>
+  )
+}
@@ -0,0 +1,102 @@
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { emptyQuery, isEmptyQuery, type NoteQuery } from '@/lib/search';
+
+const toDateInput = (time: number | null) => {
+  if (time === null) return '';
+  const date = new Date(time);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Date inputs give a local calendar day; the range includes the whole of both days.
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime() : new Date(year, month - 1, day).getTime();
+};
+
+export function SearchBar({ query, onChange, fitBounds, onFitBoundsChange, resultCount, totalCount, inputRef }: {
+  query: NoteQuery,
+  onChange: (query: NoteQuery) => void,
+  fitBounds: boolean,
+  onFitBoundsChange: (fitBounds: boolean) => void,
+  resultCount: number,
+  totalCount: number,
+  inputRef?: React.Ref<HTMLInputElement>,
+}) {
+  return (
+    <div className="grid gap-2">
+      <div className="relative">
+        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 dark:text-gray-400" />
+        <Input
+          ref={inputRef}
+          type="search"
+          className="pl-9"
+          value={query.text}
+          onChange={(e) => onChange({ ...query, text: e.target.value })}
+          placeholder="Search notes..."
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <label className="flex items-center gap-1">
+          From
+          <Input
+            type="date"
+            className="h-8 w-auto"
+            value={toDateInput(query.from)}
+            onChange={(e) => onChange({ ...query, from: fromDateInput(e.target.value, false) })}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <Input
+            type="date"
+            className="h-8 w-auto"
+            value={toDateInput(query.to)}
+            onChange={(e) => onChange({ ...query, to: fromDateInput(e.target.value, true) })}
+          />
+        </label>
+        <select
+          className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={query.location}
+          onChange={(e) => onChange({ ...query, location: e.target.value as NoteQuery['location'] })}
+        >
+          <option value="any">Any location</option>
+          <option value="with">With location</option>
+          <option value="without">Without location</option>
+        </select>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={fitBounds} onChange={(e) => onFitBoundsChange(e.target.checked)} />
+          Fit map to results
+        </label>
+        {!isEmptyQuery(query) && (
+          <>
+            <span className="ml-auto">{resultCount} of {totalCount} notes</span>
+            <Button size="sm" variant="ghost" onClick={() => onChange(emptyQuery)}>Clear</Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SearchIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="11" cy="11" r="8" />
+      <path d="m21 21-4.3-4.3" />
+    </svg>
+  )
+}
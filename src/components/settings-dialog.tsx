@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { EncryptionDialog } from '@/components/encryption-dialog';
+import { NOMINATIM_URL, type GeocoderBackend } from '@/lib/geocoding';
+import { useLockState } from '@/lib/lock';
+import { requestNotifications } from '@/lib/reminders';
+import { defaultSettings, updateSettings, useSettings, type Settings, type Theme } from '@/lib/settings';
+import { validateCustomLayer, type BaseLayer } from '@/lib/tiles';
+
+const positiveOr = (value: number, fallback: number) => Number.isFinite(value) && value > 0 ? value : fallback;
+
+const selectClassName = 'h-10 rounded-md border border-input bg-transparent px-3 text-sm';
+
+const emptyLayer = (): BaseLayer => ({
+  id: `custom-${crypto.randomUUID()}`,
+  name: '',
+  type: 'xyz',
+  url: '',
+  attribution: '',
+  subdomains: 'abc',
+  maxZoom: 19,
+  layers: '',
+});
+
+/** The user's own XYZ and WMS layers, offered in the map's layer switcher next to the presets. */
+function CustomLayersField({ layers, onChange }: {
+  layers: BaseLayer[],
+  onChange: (layers: BaseLayer[]) => void,
+}) {
+  const [draft, setDraft] = useState<BaseLayer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const add = () => {
+    if (!draft) return;
+    const layer = { ...draft, name: draft.name.trim(), url: draft.url.trim(), maxZoom: positiveOr(draft.maxZoom, 19) };
+    const problem = validateCustomLayer(layer);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange([...layers, layer]);
+    setDraft(null);
+    setError(null);
+  };
+
+  return (
+    <div className="grid gap-2">
+      <span className="font-medium">Custom map layers</span>
+      {layers.map((layer) => (
+        <div key={layer.id} className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <div>{layer.name} <span className="text-gray-500 dark:text-gray-400">({layer.type.toUpperCase()})</span></div>
+            <div className="truncate text-gray-500 dark:text-gray-400">{layer.url}</div>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => onChange(layers.filter(({ id }) => id !== layer.id))}>
+            Delete
+          </Button>
+        </div>
+      ))}
+      {draft ? (
+        <div className="grid gap-2 rounded-md border p-3">
+          <div className="flex gap-2">
+            <Input placeholder="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <select
+              className={selectClassName}
+              value={draft.type}
+              onChange={(e) => setDraft({ ...draft, type: e.target.value as BaseLayer['type'] })}
+            >
+              <option value="xyz">XYZ</option>
+              <option value="wms">WMS</option>
+            </select>
+          </div>
+          <Input
+            placeholder={draft.type === 'xyz' ? 'https://{s}.example.com/{z}/{x}/{y}.png' : 'https://example.com/wms'}
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          />
+          {draft.type === 'wms' && (
+            <Input
+              placeholder="Layer names, comma-separated"
+              value={draft.layers}
+              onChange={(e) => setDraft({ ...draft, layers: e.target.value })}
+            />
+          )}
+          <Input
+            placeholder="Attribution, e.g. &copy; Example Maps"
+            value={draft.attribution}
+            onChange={(e) => setDraft({ ...draft, attribution: e.target.value })}
+          />
+          <label className="flex items-center gap-2">
+            Max zoom
+            <Input
+              type="number"
+              min={1}
+              className="w-24"
+              value={draft.maxZoom}
+              onChange={(e) => setDraft({ ...draft, maxZoom: Number(e.target.value) })}
+            />
+          </label>
+          {error && <span className="text-red-700 dark:text-red-300">{error}</span>}
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => {
+              setDraft(null);
+              setError(null);
+            }}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={add}>Add layer</Button>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" className="justify-self-start" onClick={() => setDraft(emptyLayer())}>
+          Add a layer
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function SettingsDialog({ open, onOpenChange }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+}) {
+  const settings = useSettings();
+  const [draft, setDraft] = useState<Settings>(settings);
+  const [encryptionOpen, setEncryptionOpen] = useState<boolean>(false);
+  const encrypted = useLockState() === 'unlocked';
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const save = () => {
+    updateSettings({
+      accuracyThreshold: positiveOr(draft.accuracyThreshold, defaultSettings.accuracyThreshold),
+      locationTimeout: positiveOr(draft.locationTimeout, defaultSettings.locationTimeout),
+      locationMaxAge: Number.isFinite(draft.locationMaxAge) && draft.locationMaxAge >= 0 ? draft.locationMaxAge : defaultSettings.locationMaxAge,
+      theme: draft.theme,
+      customLayers: draft.customLayers,
+      autoLock: Number.isFinite(draft.autoLock) && draft.autoLock >= 0 ? draft.autoLock : defaultSettings.autoLock,
+      geocoder: draft.geocoder && { ...draft.geocoder, url: draft.geocoder.url.trim() },
+      proximityReminders: draft.proximityReminders,
+      reminderCooldown: Number.isFinite(draft.reminderCooldown) && draft.reminderCooldown >= 0 ? draft.reminderCooldown : defaultSettings.reminderCooldown,
+    });
+    // Browsers only ask for permission in response to a click, such as this one.
+    if (draft.proximityReminders) requestNotifications();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Settings are kept in this browser only.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 text-sm">
+          <label className="grid gap-1">
+            <span className="font-medium">GPS accuracy threshold (m)</span>
+            <Input
+              type="number"
+              min={1}
+              value={draft.accuracyThreshold}
+              onChange={(e) => setDraft({ ...draft, accuracyThreshold: Number(e.target.value) })}
+            />
+            <span className="text-gray-500 dark:text-gray-400">
+              GPS fixes less accurate than this are highlighted and can be retried.
+            </span>
+          </label>
+          <label className="grid gap-1">
+            <span className="font-medium">GPS timeout (s)</span>
+            <Input
+              type="number"
+              min={1}
+              value={draft.locationTimeout}
+              onChange={(e) => setDraft({ ...draft, locationTimeout: Number(e.target.value) })}
+            />
+            <span className="text-gray-500 dark:text-gray-400">
+              How long to wait for a fix before a new note is left without a location.
+            </span>
+          </label>
+          <label className="grid gap-1">
+            <span className="font-medium">Reuse GPS fixes younger than (s)</span>
+            <Input
+              type="number"
+              min={0}
+              value={draft.locationMaxAge}
+              onChange={(e) => setDraft({ ...draft, locationMaxAge: Number(e.target.value) })}
+            />
+            <span className="text-gray-500 dark:text-gray-400">
+              A recent fix is used at once instead of waiting for a new one. Set to 0 to always ask.
+            </span>
+          </label>
+          <label className="grid gap-1">
+            <span className="font-medium">Theme</span>
+            <select
+              className={selectClassName}
+              value={draft.theme}
+              onChange={(e) => setDraft({ ...draft, theme: e.target.value as Theme })}
+            >
+              <option value="system">Same as the system</option>
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </label>
+          <div className="grid gap-2">
+            <span className="font-medium">Place names</span>
+            <select
+              className={selectClassName}
+              value={draft.geocoder?.backend ?? 'off'}
+              onChange={(e) => setDraft({
+                ...draft,
+                geocoder: e.target.value === 'off' ? null : { url: '', ...draft.geocoder, backend: e.target.value as GeocoderBackend },
+              })}
+            >
+              <option value="off">Do not look up place names</option>
+              <option value="offline">Nearest town, from a list built into the app</option>
+              <option value="nominatim">Address, from OpenStreetMap Nominatim</option>
+            </select>
+            {draft.geocoder?.backend === 'nominatim' && (
+              <Input
+                placeholder={NOMINATIM_URL}
+                value={draft.geocoder.url}
+                onChange={(e) => setDraft({ ...draft, geocoder: { backend: 'nominatim', url: e.target.value } })}
+              />
+            )}
+            <span className="text-gray-500 dark:text-gray-400">
+              {draft.geocoder?.backend === 'nominatim'
+                ? 'Note locations and map searches are sent to the Nominatim server. Leave the address empty for the public one.'
+                : 'Notes are labelled with where they were taken, and places can be searched for on the map.'}
+            </span>
+          </div>
+          <div className="grid gap-2">
+            <span className="font-medium">Proximity reminders</span>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.proximityReminders}
+                onChange={(e) => setDraft({ ...draft, proximityReminders: e.target.checked })}
+              />
+              Watch my position and remind me of notes when I come near them
+            </label>
+            {draft.proximityReminders && (
+              <label className="flex items-center gap-2">
+                Remind of the same note at most every
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-24"
+                  value={draft.reminderCooldown}
+                  onChange={(e) => setDraft({ ...draft, reminderCooldown: Number(e.target.value) })}
+                />
+                minutes
+              </label>
+            )}
+            <span className="text-gray-500 dark:text-gray-400">
+              Give a note a reminder when writing or editing it. Reminders only come while the app is open.
+            </span>
+          </div>
+          <CustomLayersField
+            layers={draft.customLayers}
+            onChange={(customLayers) => setDraft({ ...draft, customLayers })}
+          />
+          <div className="grid gap-2">
+            <span className="font-medium">Encryption</span>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-500 dark:text-gray-400">
+                {encrypted ? 'Notes are stored encrypted with a passphrase.' : 'Notes are stored unencrypted.'}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setEncryptionOpen(true)}>
+                {encrypted ? 'Manage' : 'Set a passphrase'}
+              </Button>
+            </div>
+            {encrypted && (
+              <label className="flex items-center gap-2">
+                Lock after
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-24"
+                  value={draft.autoLock}
+                  onChange={(e) => setDraft({ ...draft, autoLock: Number(e.target.value) })}
+                />
+                minutes without use (0 for never)
+              </label>
+            )}
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+      <EncryptionDialog open={encryptionOpen} onOpenChange={setEncryptionOpen} />
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react';
+import { encode } from 'uqr';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Markdown } from '@/components/markdown';
+import { formatCoordinates, noteLocation } from '@/lib/geo';
+import type { ImportPlan } from '@/lib/merge';
+import { geoUri, mapLink, shareLink, type SharedNote } from '@/lib/share';
+import type { NoteData } from '@/lib/types';
+
+export interface PendingShare {
+  shared: SharedNote;
+  /** How the note would be merged into the notebook. */
+  plan: ImportPlan;
+}
+
+// Draws the link as one path of dark modules. Longer notes make denser
+// codes, and past a couple of kilobytes none can hold them at all.
+function QrCode({ text }: { text: string }) {
+  const path = useMemo(() => {
+    try {
+      const { data } = encode(text, { ecc: 'L', border: 2 });
+      return {
+        size: data.length,
+        d: data.flatMap((row, y) => row.map((dark, x) => dark ? `M${x} ${y}h1v1h-1z` : '')).join(''),
+      };
+    } catch {
+      return null;
+    }
+  }, [text]);
+  if (!path) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">This note is too long for a QR code. Send the link instead.</p>;
+  }
+  return (
+    <svg
+      className="w-56 h-56 mx-auto bg-white text-black"
+      viewBox={`0 0 ${path.size} ${path.size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code of the share link"
+    >
+      <path d={path.d} fill="currentColor" />
+    </svg>
+  );
+}
+
+/**
+ * Passes a single note on as a link or a QR code that opens it in Geo Note,
+ * and its location as a link for map apps.
+ */
+export function ShareDialog({ note, onClose }: {
+  note: NoteData | null,
+  onClose: () => void,
+}) {
+  const [copied, setCopied] = useState<boolean>(false);
+  const link = useMemo(() => note && shareLink(note), [note]);
+  const point = note && note.locationSource !== 'pending' ? noteLocation(note) : null;
+
+  useEffect(() => setCopied(false), [note]);
+
+  const copy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return (
+    <Dialog open={note !== null} onOpenChange={(open) => !open && onClose()}>
+      {note && link && <DialogContent className="max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Share note #{note.id}</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read the note and add it to their own notes. It is carried in the
+            link itself, so it never passes through a server. Attachments are not included.
+          </DialogDescription>
+        </DialogHeader>
+        <QrCode text={link} />
+        <div className="flex gap-2">
+          <Input readOnly value={link} aria-label="Share link" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" onClick={copy}>{copied ? 'Copied' : 'Copy'}</Button>
+        </div>
+        {point && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            <a className="underline" href={geoUri(point, note.accuracy)}>Open in map app</a>
+            <a className="underline" href={mapLink(point)} target="_blank" rel="noreferrer">View on OpenStreetMap</a>
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          {'share' in navigator && (
+            <Button variant="outline" onClick={() => navigator.share({ url: link }).catch(console.error)}>Share...</Button>
+          )}
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>}
+    </Dialog>
+  );
+}
+
+/**
+ * Shows a note opened from a share link before it is added. It is merged
+ * like an import, so a note that is already here is not added twice.
+ */
+export function SharedNoteDialog({ pending, onImport, onClose }: {
+  pending: PendingShare | null,
+  onImport: () => void,
+  onClose: () => void,
+}) {
+  const skipped = pending?.plan.skipped[0];
+  const point = pending && noteLocation(pending.shared);
+  return (
+    <Dialog open={pending !== null} onOpenChange={(open) => !open && onClose()}>
+      {pending && <DialogContent className="max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Shared note</DialogTitle>
+          <DialogDescription>
+            Written {new Date(pending.shared.date).toLocaleString()} {point ? `at ${formatCoordinates(point)}` : 'without a location'}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="overflow-auto space-y-2 text-sm">
+          {pending.shared.content.trim()
+            ? <Markdown content={pending.shared.content} />
+            : <p className="text-gray-500 dark:text-gray-400">Empty note</p>}
+          {pending.shared.tags.length > 0 && (
+            <p className="text-gray-500 dark:text-gray-400">Tags: {pending.shared.tags.join(', ')}</p>
+          )}
+        </div>
+        {skipped && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Not added: {skipped.reason}.</p>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>{skipped ? 'Close' : 'Cancel'}</Button>
+          {!skipped && <Button onClick={onImport}>Add to my notes</Button>}
+        </DialogFooter>
+      </DialogContent>}
+    </Dialog>
+  );
+}
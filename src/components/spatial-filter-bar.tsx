@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { DrawMode } from '@/components/mapview';
+import { getCurrentPosition } from '@/lib/location';
+import type { SpatialFilter } from '@/lib/geo';
+
+export function SpatialFilterBar({ filter, onChange, drawMode, onDrawModeChange, onError }: {
+  filter: SpatialFilter,
+  onChange: (filter: SpatialFilter) => void,
+  drawMode: DrawMode,
+  onDrawModeChange: (mode: DrawMode) => void,
+  onError: (error: unknown) => void,
+}) {
+  const [radius, setRadius] = useState<number>(filter.type === 'near' ? filter.radius : 500);
+  const [locating, setLocating] = useState<boolean>(false);
+
+  const findNearMe = async () => {
+    onDrawModeChange(null);
+    setLocating(true);
+    try {
+      const { latitude, longitude } = await getCurrentPosition();
+      onChange({ type: 'near', center: { latitude, longitude }, radius });
+    } catch (error) {
+      onError(error);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const updateRadius = (value: number) => {
+    setRadius(value);
+    if (filter.type === 'near' && value > 0) onChange({ ...filter, radius: value });
+  };
+
+  const startDrawing = (mode: NonNullable<DrawMode>) => {
+    onChange({ type: 'none' });
+    onDrawModeChange(drawMode === mode ? null : mode);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+      <Button size="sm" variant={filter.type === 'near' ? 'default' : 'outline'} onClick={findNearMe} disabled={locating}>
+        {locating ? 'Locating...' : 'Near me'}
+      </Button>
+      <label className="flex items-center gap-1">
+        within
+        <Input
+          type="number"
+          min={1}
+          className="h-8 w-24"
+          value={radius}
+          onChange={(e) => updateRadius(Number(e.target.value))}
+        />
+        m
+      </label>
+      <Button size="sm" variant={filter.type === 'viewport' ? 'default' : 'outline'} onClick={() => {
+        onDrawModeChange(null);
+        onChange({ type: 'viewport' });
+      }}>
+        In map view
+      </Button>
+      <Button size="sm" variant={drawMode === 'polygon' ? 'default' : 'outline'} onClick={() => startDrawing('polygon')}>
+        Draw area
+      </Button>
+      <Button size="sm" variant={drawMode === 'rectangle' ? 'default' : 'outline'} onClick={() => startDrawing('rectangle')}>
+        Draw rectangle
+      </Button>
+      {drawMode === 'polygon' && <span>Click the map to add points, double-click to finish.</span>}
+      {drawMode === 'rectangle' && <span>Click two opposite corners on the map.</span>}
+      {filter.type === 'area' && <span>Showing notes inside the drawn area.</span>}
+      {(filter.type !== 'none' || drawMode) && (
+        <Button size="sm" variant="ghost" onClick={() => {
+          onDrawModeChange(null);
+          onChange({ type: 'none' });
+        }}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
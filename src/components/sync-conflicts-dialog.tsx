@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { diffLines } from '@/lib/diff';
+import type { ConflictChoice, SyncConflict } from '@/lib/sync';
+import { cn } from '@/lib/utils';
+
+const choiceLabels: Record<ConflictChoice, string> = {
+  local: "Keep this device's",
+  remote: "Keep the other device's",
+  both: 'Keep both',
+};
+
+/**
+ * Shows each note that was changed on two devices since they last synced,
+ * as the lines this device has that the other does not and the other way
+ * round, and asks which version to keep.
+ */
+export function SyncConflictsDialog({ open, conflicts, onResolve, onClose }: {
+  open: boolean,
+  conflicts: SyncConflict[],
+  onResolve: (resolutions: { conflict: SyncConflict, choice: ConflictChoice }[]) => void,
+  onClose: () => void,
+}) {
+  const [choices, setChoices] = useState<Record<number, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (open) setChoices({});
+  }, [open, conflicts]);
+
+  const describe = (time: number) => new Date(time).toLocaleString();
+
+  return (
+    <Dialog open={open && conflicts.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] flex flex-col md:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Sync conflicts</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? 'A note was' : `${conflicts.length} notes were`} changed both on this device and
+            on another one. Until you choose, each device keeps its own version.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="overflow-auto space-y-4 text-sm">
+          {conflicts.map((conflict) => {
+            const { id, local, remote, remoteTime } = conflict;
+            const options: ConflictChoice[] = local && remote ? ['local', 'remote', 'both'] : ['local', 'remote'];
+            return (
+              <li key={id} className="space-y-2 rounded-md border p-3">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <span className="font-medium">Note #{id}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    Here: {local ? `edited ${describe(local.updated)}` : 'deleted'} · Other device: {remote ? `edited ${describe(remoteTime)}` : `deleted ${describe(remoteTime)}`}
+                  </span>
+                </div>
+                {local && remote ? (
+                  <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words rounded-md border p-2 font-mono text-xs">
+                    {diffLines(local.content, remote.content).map((line, index) => (
+                      <div
+                        key={index}
+                        className={cn({
+                          'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300': line.type === 'removed',
+                          'bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300': line.type === 'added',
+                        })}
+                      >
+                        {line.type === 'removed' ? '- ' : line.type === 'added' ? '+ ' : '  '}{line.text}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p className="line-clamp-4 whitespace-pre-wrap break-words">{(local ?? remote)?.content}</p>
+                )}
+                {local && remote && (
+                  <p className="text-gray-500 dark:text-gray-400">Lines marked - are only here, lines marked + only on the other device.</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {options.map((choice) => (
+                    <Button
+                      key={choice}
+                      size="sm"
+                      variant={choices[id] === choice ? 'default' : 'outline'}
+                      onClick={() => setChoices({ ...choices, [id]: choice })}
+                    >
+                      {choiceLabels[choice]}
+                    </Button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>Later</Button>
+          <Button
+            disabled={!conflicts.some(({ id }) => choices[id])}
+            onClick={() => onResolve(conflicts.filter(({ id }) => choices[id]).map((conflict) => ({ conflict, choice: choices[conflict.id] })))}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useLockState } from '@/lib/lock';
+import { updateSettings, useSettings } from '@/lib/settings';
+import * as storage from '@/lib/storage';
+import { createAdapter, type SyncBackend, type SyncConfig } from '@/lib/sync-adapters';
+
+const emptyConfig: SyncConfig = { backend: 'webdav', url: '', username: '', password: '', token: '', auto: true };
+
+const selectClassName = 'h-10 rounded-md border border-input bg-transparent px-3 text-sm';
+
+/** Sets up where notes are synced to, or turns sync off. */
+export function SyncDialog({ open, onOpenChange }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+}) {
+  const { sync } = useSettings();
+  const lockState = useLockState();
+  const encrypted = lockState === 'locked' || lockState === 'unlocked';
+  const [draft, setDraft] = useState<SyncConfig>(sync ?? emptyConfig);
+  const [message, setMessage] = useState<{ ok: boolean, text: string } | null>(null);
+  const [testing, setTesting] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(sync ?? emptyConfig);
+    setMessage(null);
+  }, [open, sync]);
+
+  const validUrl = /^https?:\/\/\S+$/.test(draft.url.trim());
+
+  const test = async () => {
+    setTesting(true);
+    setMessage(null);
+    try {
+      const { document } = await createAdapter({ ...draft, url: draft.url.trim() }).pull();
+      setMessage({
+        ok: true,
+        text: document ? `Connected. The server holds ${document.notes?.length ?? 0} synced notes.` : 'Connected. Nothing has been synced here yet.',
+      });
+    } catch (error) {
+      setMessage({ ok: false, text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const save = async (config: SyncConfig | null) => {
+    // What was synced with one remote says nothing about another.
+    if (!config || !sync || config.backend !== sync.backend || config.url !== sync.url) {
+      await storage.resetSyncBase().catch(console.error);
+    }
+    updateSettings({ sync: config });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync</DialogTitle>
+          <DialogDescription>
+            {encrypted
+              ? 'Sync is not available while the notebook is encrypted, since notes are sent to the server as they are. Turn off encryption to sync.'
+              : 'Keep notes the same on several devices through a server you choose. Notes are sent as they are, so use HTTPS and a server you trust.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 text-sm">
+          <label className="grid gap-1">
+            <span className="font-medium">Server type</span>
+            <select
+              className={selectClassName}
+              value={draft.backend}
+              onChange={(e) => setDraft({ ...draft, backend: e.target.value as SyncBackend })}
+            >
+              <option value="webdav">WebDAV (e.g. Nextcloud)</option>
+              <option value="rest">REST endpoint</option>
+            </select>
+          </label>
+          <label className="grid gap-1">
+            <span className="font-medium">{draft.backend === 'webdav' ? 'Folder URL' : 'Endpoint URL'}</span>
+            <Input
+              placeholder={draft.backend === 'webdav' ? 'https://cloud.example.com/remote.php/dav/files/me/geo-note/' : 'https://example.com/api'}
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            />
+            <span className="text-gray-500 dark:text-gray-400">
+              {draft.backend === 'webdav'
+                ? 'Notes are kept in geo-note.json inside this folder, attachments in a folder next to it.'
+                : 'Notes are read and written at /notes under this URL, attachments at /attachments/<id>.'}
+            </span>
+          </label>
+          {draft.backend === 'webdav' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="User name"
+                autoComplete="username"
+                value={draft.username}
+                onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+              />
+              <Input
+                type="password"
+                placeholder="Password or app password"
+                autoComplete="current-password"
+                value={draft.password}
+                onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+              />
+            </div>
+          ) : (
+            <Input
+              type="password"
+              placeholder="Access token (optional)"
+              value={draft.token}
+              onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+            />
+          )}
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.auto} onChange={(e) => setDraft({ ...draft, auto: e.target.checked })} />
+            Sync automatically on start, after changes and every few minutes
+          </label>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" disabled={encrypted || !validUrl || testing} onClick={test}>
+              {testing ? 'Testing...' : 'Test connection'}
+            </Button>
+            {message && (
+              <span className={message.ok ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}>
+                {message.text}
+              </span>
+            )}
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          {sync && <Button variant="outline" onClick={() => save(null)}>Turn off sync</Button>}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={encrypted || !validUrl} onClick={() => save({ ...draft, url: draft.url.trim() })}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { SyncConflictsDialog } from '@/components/sync-conflicts-dialog';
+import { SyncDialog } from '@/components/sync-dialog';
+import { useSettings } from '@/lib/settings';
+import { resolveConflicts, syncNotes, type ConflictChoice, type SyncConflict } from '@/lib/sync';
+import { createAdapter } from '@/lib/sync-adapters';
+import type { NoteData } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type SyncStatusState =
+  | { type: 'idle' }
+  | { type: 'syncing' }
+  | { type: 'synced'; at: number; missingAttachments: number }
+  | { type: 'error'; message: string };
+
+// How often automatic sync checks for changes made on other devices.
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000;
+// Edits often come in bursts, so sending them waits for a pause.
+const CHANGE_DELAY = 10 * 1000;
+
+/**
+ * The header button for sync: shows how the last sync went, syncs on
+ * demand, and when automatic sync is on, also on start, after local
+ * changes, every few minutes and when the device comes back online.
+ */
+export function SyncStatus({ changes, onSynced, onError }: {
+  /** The notes on this device; a new value means something may need sending. */
+  changes: NoteData[],
+  /** Called when sync wrote notes on this device, so they can be reloaded. */
+  onSynced: () => void,
+  onError: (error: unknown) => void,
+}) {
+  const { sync: config } = useSettings();
+  const [status, setStatus] = useState<SyncStatusState>({ type: 'idle' });
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [conflictsOpen, setConflictsOpen] = useState<boolean>(false);
+  const [dialogOpen, setDialogOpen] = useState<boolean>(false);
+  const running = useRef<boolean>(false);
+  // Notes reloaded after a sync are not changes of this device's own.
+  const reloaded = useRef<boolean>(true);
+
+  const sync = useCallback(async () => {
+    if (!config || running.current) return;
+    running.current = true;
+    setStatus({ type: 'syncing' });
+    try {
+      const result = await syncNotes(createAdapter(config));
+      setConflicts(result.conflicts);
+      setStatus({ type: 'synced', at: Date.now(), missingAttachments: result.missingAttachments });
+      if (result.received > 0 || result.renumbered > 0) {
+        reloaded.current = true;
+        onSynced();
+      }
+    } catch (error) {
+      console.error(error);
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      running.current = false;
+    }
+  }, [config, onSynced]);
+
+  useEffect(() => {
+    setStatus({ type: 'idle' });
+    setConflicts([]);
+    if (!config?.auto) return;
+    sync();
+    const interval = setInterval(sync, AUTO_SYNC_INTERVAL);
+    window.addEventListener('online', sync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', sync);
+    };
+  }, [config, sync]);
+
+  useEffect(() => {
+    if (reloaded.current) {
+      reloaded.current = false;
+      return;
+    }
+    if (!config?.auto) return;
+    const timeout = setTimeout(sync, CHANGE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [changes, config, sync]);
+
+  const resolve = async (resolutions: { conflict: SyncConflict, choice: ConflictChoice }[]) => {
+    if (!config) return;
+    setConflictsOpen(false);
+    try {
+      await resolveConflicts(createAdapter(config), resolutions);
+      reloaded.current = true;
+      onSynced();
+      await sync();
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const label = !config ? 'Sync'
+    : status.type === 'syncing' ? 'Syncing...'
+    : status.type === 'error' ? 'Sync failed'
+    : conflicts.length > 0 ? `${conflicts.length} ${conflicts.length === 1 ? 'conflict' : 'conflicts'}`
+    : status.type === 'synced' ? 'Synced'
+    : 'Sync';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" title={status.type === 'error' ? status.message : undefined}>
+            <CloudIcon
+              className={cn('w-5 h-5 md:mr-2', {
+                'animate-pulse': status.type === 'syncing',
+                'text-red-600 dark:text-red-400': status.type === 'error' || conflicts.length > 0,
+              })}
+            />
+            <span className='hidden md:block'>{label}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-w-xs">
+          {config && (
+            <>
+              <DropdownMenuLabel className="font-normal text-gray-500 dark:text-gray-400">
+                {status.type === 'synced' && `Last synced ${new Date(status.at).toLocaleTimeString()}.`}
+                {status.type === 'synced' && status.missingAttachments > 0 && ` ${status.missingAttachments} attachment files could not be found on either side.`}
+                {status.type === 'error' && status.message}
+                {status.type === 'syncing' && 'Syncing...'}
+                {status.type === 'idle' && (config.auto ? 'Waiting to sync.' : 'Not synced yet.')}
+              </DropdownMenuLabel>
+              <DropdownMenuItem disabled={status.type === 'syncing'} onSelect={sync}>Sync now</DropdownMenuItem>
+              {conflicts.length > 0 && (
+                <DropdownMenuItem onSelect={() => setConflictsOpen(true)}>
+                  Resolve {conflicts.length} {conflicts.length === 1 ? 'conflict' : 'conflicts'}...
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onSelect={() => setDialogOpen(true)}>
+            {config ? 'Sync settings...' : 'Set up sync...'}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <SyncDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+      <SyncConflictsDialog
+        open={conflictsOpen}
+        conflicts={conflicts}
+        onResolve={resolve}
+        onClose={() => setConflictsOpen(false)}
+      />
+    </>
+  );
+}
+
+function CloudIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M17.5 19H9a7 7 0 1 1 6.71-9h1.79a4.5 4.5 0 1 1 0 9Z" />
+    </svg>
+  )
+}
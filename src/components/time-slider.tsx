@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { TimeWindow } from '@/lib/timeline';
+import { cn } from '@/lib/utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const windowSizes = [
+  { label: 'Day', length: DAY, step: DAY / 24 },
+  { label: 'Week', length: 7 * DAY, step: DAY / 4 },
+  { label: 'Month', length: 30 * DAY, step: DAY },
+  { label: 'Year', length: 365 * DAY, step: 7 * DAY },
+];
+
+// Playback crosses the whole time range in about this many frames, whatever
+// its length, so a decade of notes takes no longer to watch than a weekend.
+const PLAYBACK_FRAMES = 120;
+const FRAME_INTERVAL = 250;
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Narrows the map to the notes taken within a window of time, which can be
+ * dragged across the time the notes span or played back as an animation.
+ * `value` is null while all notes are shown.
+ */
+export function TimeSlider({ extent, value, onChange, count, className }: {
+  extent: TimeWindow,
+  value: TimeWindow | null,
+  onChange: (window: TimeWindow | null) => void,
+  /** How many notes fall within the window. */
+  count: number,
+  className?: string,
+}) {
+  const [size, setSize] = useState(windowSizes[1]);
+  const [playing, setPlaying] = useState(false);
+  // The window may start before the first note, so the last note can still
+  // be reached when the window is longer than the time the notes span.
+  const last = Math.max(extent.start, extent.end - size.length + size.step);
+
+  useEffect(() => {
+    if (!playing || !value) return;
+    const timer = setTimeout(() => {
+      const start = value.start + Math.max(size.step, (extent.end - extent.start) / PLAYBACK_FRAMES);
+      if (start > last) {
+        setPlaying(false);
+        return;
+      }
+      onChange({ start, end: start + size.length });
+    }, FRAME_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, value, size, extent, last, onChange]);
+
+  if (!value) {
+    return (
+      <Button size="sm" variant="outline" className={className} onClick={() => onChange({ start: extent.start, end: extent.start + size.length })}>
+        <ClockIcon className="w-4 h-4 mr-2" />
+        Time
+      </Button>
+    );
+  }
+
+  const play = () => {
+    // Starting again from the beginning once playback has reached the end.
+    if (value.start >= last) onChange({ start: extent.start, end: extent.start + size.length });
+    setPlaying(true);
+  };
+
+  return (
+    <div className={cn('grid w-96 gap-2 rounded-md border p-2 text-sm shadow', className)}>
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => playing ? setPlaying(false) : play()}>
+          {playing ? 'Pause' : 'Play'}
+        </Button>
+        <input
+          type="range"
+          className="flex-1"
+          aria-label="Start of the time window"
+          min={extent.start}
+          max={last}
+          step={size.step}
+          value={value.start}
+          onChange={(e) => {
+            const start = Number(e.target.value);
+            onChange({ start, end: start + size.length });
+          }}
+        />
+        <select
+          className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+          aria-label="Length of the time window"
+          value={size.label}
+          onChange={(e) => {
+            const next = windowSizes.find(({ label }) => label === e.target.value) ?? size;
+            setSize(next);
+            onChange({ start: value.start, end: value.start + next.length });
+          }}
+        >
+          {windowSizes.map(({ label }) => <option key={label} value={label}>{label}</option>)}
+        </select>
+        <Button size="sm" variant="ghost" onClick={() => {
+          setPlaying(false);
+          onChange(null);
+        }}>
+          Close
+        </Button>
+      </div>
+      <div className="text-gray-500 dark:text-gray-400">
+        {formatTime(value.start)} – {formatTime(value.end)} · {count} {count === 1 ? 'note' : 'notes'}
+      </div>
+    </div>
+  );
+}
+
+function ClockIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="12" cy="12" r="10" />
+      <polyline points="12 6 12 12 16 14" />
+    </svg>
+  )
+}
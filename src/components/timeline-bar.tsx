@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { noteSorts, type NoteSort, type TimeGrouping } from '@/lib/timeline';
+
+const selectClassName = 'h-8 rounded-md border border-input bg-transparent px-2 text-sm';
+
+const groupings: { grouping: TimeGrouping, label: string }[] = [
+  { grouping: 'none', label: 'No grouping' },
+  { grouping: 'day', label: 'By day' },
+  { grouping: 'week', label: 'By week' },
+  { grouping: 'month', label: 'By month' },
+];
+
+/** How the note list is ordered and whether it is laid out as a timeline. */
+export function TimelineBar({ sort, onSortChange, grouping, onGroupingChange, calendarOpen, onCalendarOpenChange }: {
+  sort: NoteSort,
+  onSortChange: (sort: NoteSort) => void,
+  grouping: TimeGrouping,
+  onGroupingChange: (grouping: TimeGrouping) => void,
+  calendarOpen: boolean,
+  onCalendarOpenChange: (open: boolean) => void,
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        className={selectClassName}
+        aria-label="Sort notes"
+        value={sort}
+        onChange={(e) => onSortChange(e.target.value as NoteSort)}
+      >
+        {noteSorts.map(({ sort, label }) => <option key={sort} value={sort}>{label}</option>)}
+      </select>
+      <select
+        className={selectClassName}
+        aria-label="Group notes"
+        // Distance has no days to group by.
+        disabled={sort === 'nearest'}
+        value={sort === 'nearest' ? 'none' : grouping}
+        onChange={(e) => onGroupingChange(e.target.value as TimeGrouping)}
+      >
+        {groupings.map(({ grouping, label }) => <option key={grouping} value={grouping}>{label}</option>)}
+      </select>
+      <Button size="sm" variant={calendarOpen ? 'secondary' : 'outline'} onClick={() => onCalendarOpenChange(!calendarOpen)}>
+        <CalendarGridIcon className="w-4 h-4 mr-2" />
+        Activity
+      </Button>
+    </div>
+  );
+}
+
+function CalendarGridIcon(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      {...props}
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <rect width="18" height="18" x="3" y="4" rx="2" />
+      <path d="M16 2v4" />
+      <path d="M8 2v4" />
+      <path d="M3 10h18" />
+      <path d="M8 14h.01" />
+      <path d="M12 14h.01" />
+      <path d="M16 14h.01" />
+      <path d="M8 18h.01" />
+      <path d="M12 18h.01" />
+      <path d="M16 18h.01" />
+    </svg>
+  )
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatDistance } from '@/lib/geo';
+import { formatDuration, trackStats } from '@/lib/tracks';
+import type { NoteData, Track } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const describeStats = (track: Track, now: number) => {
+  const stats = trackStats(track, now);
+  const parts = [formatDistance(stats.distance), formatDuration(stats.duration)];
+  if (stats.minAltitude !== null) {
+    parts.push(`↑ ${Math.round(stats.ascent)} m ↓ ${Math.round(stats.descent)} m`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Starts and stops track recording and lists the recorded tracks. Notes
+ * written while a track is being recorded are linked to it.
+ */
+export function TracksPanel({ tracks, notes, trackFilter, onStart, onStop, onExport, onDelete, onFilter }: {
+  tracks: Track[],
+  notes: NoteData[],
+  trackFilter: string | null,
+  onStart: () => void,
+  onStop: () => void,
+  onExport: (track: Track) => void,
+  onDelete: (track: Track) => void,
+  /** Shows only the notes of a track, or all notes again for null. */
+  onFilter: (id: string | null) => void,
+}) {
+  const recording = tracks.find((track) => track.end === null) ?? null;
+  const [now, setNow] = useState<number>(Date.now);
+
+  // The duration of the track being recorded keeps running.
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  const noteCounts = new Map<string, number>();
+  notes.forEach((note) => {
+    if (note.trackId) noteCounts.set(note.trackId, (noteCounts.get(note.trackId) ?? 0) + 1);
+  });
+
+  return (
+    <div className="grid gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {recording ? (
+          <>
+            <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+            <span>Recording {recording.name}: {describeStats(recording, now)}, {recording.points.length} point(s)</span>
+            <Button size="sm" variant="destructive" onClick={onStop}>Stop track</Button>
+          </>
+        ) : (
+          <Button size="sm" variant="outline" onClick={onStart}>Record track</Button>
+        )}
+      </div>
+      {tracks.filter((track) => track.end !== null).map((track) => (
+        <div
+          key={track.id}
+          className={cn('flex flex-wrap items-center justify-between gap-2 rounded-md border px-3 py-2', {
+            'border-blue-500': trackFilter === track.id,
+          })}
+        >
+          <div>
+            <div className="font-medium">{track.name}</div>
+            <div className="text-gray-500 dark:text-gray-400">
+              {describeStats(track, now)} · {noteCounts.get(track.id) ?? 0} note(s)
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => onFilter(trackFilter === track.id ? null : track.id)}>
+              {trackFilter === track.id ? 'Show all notes' : 'Show notes'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onExport(track)}>Export GPX</Button>
+            <Button size="sm" variant="ghost" onClick={() => onDelete(track)}>Delete</Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import * as storage from '@/lib/storage';
+import type { NoteData, TrashedNote } from '@/lib/types';
+
+const excerpt = (note: NoteData) => {
+  const content = note.content.trim().split('\n')[0];
+  return content.length > 60 ? `${content.substring(0, 60)}...` : content || 'Empty note';
+};
+
+/** Deleted notes, which can be put back or deleted for good. */
+export function TrashDialog({ open, onOpenChange, onRestored, onError }: {
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+  onRestored: (notes: NoteData[]) => void,
+  onError: (error: unknown) => void,
+}) {
+  const [trash, setTrash] = useState<TrashedNote[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    storage.getTrash().then(setTrash).catch(onError);
+  }, [open, onError]);
+
+  const restore = async (ids: number[]) => {
+    try {
+      onRestored(await storage.restoreNotes(ids));
+      setTrash(await storage.getTrash());
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const purge = async (ids: number[]) => {
+    const what = ids.length === 1 ? `note #${ids[0]}` : `all ${ids.length} notes in the trash`;
+    if (!window.confirm(`Delete ${what} for good? This cannot be undone.`)) return;
+    try {
+      await storage.purgeNotes(ids);
+      setTrash(await storage.getTrash());
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted notes stay here, with their attachments, until they are deleted for good.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="overflow-auto space-y-2 text-sm">
+          {trash.length === 0 && <p className="text-gray-500 dark:text-gray-400">The trash is empty.</p>}
+          {trash.map((note) => (
+            <div key={note.id} className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate">#{note.id}: {excerpt(note)}</div>
+                <div className="text-gray-500 dark:text-gray-400">Deleted {new Date(note.deleted).toLocaleString()}</div>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => restore([note.id])}>Restore</Button>
+                <Button size="sm" variant="ghost" onClick={() => purge([note.id])}>Delete</Button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter className="gap-2">
+          {trash.length > 0 && (
+            <>
+              <Button variant="destructive" onClick={() => purge(trash.map((note) => note.id))}>Empty trash</Button>
+              <Button variant="outline" onClick={() => restore(trash.map((note) => note.id))}>Restore all</Button>
+            </>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+
+export interface UndoAction {
+  text: string;
+  undo: () => void;
+}
+
+// Long enough to notice a mistake, short enough not to linger.
+const UNDO_TIMEOUT = 8000;
+
+/** A notice at the bottom of the screen offering to take back what was just done. */
+export function UndoToast({ action, onDismiss }: {
+  action: UndoAction | null,
+  onDismiss: () => void,
+}) {
+  useEffect(() => {
+    if (!action) return;
+    const timer = setTimeout(onDismiss, UNDO_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [action, onDismiss]);
+
+  if (!action) return null;
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-[1000] flex -translate-x-1/2 items-center gap-3 rounded-md border bg-background px-4 py-2 text-sm shadow-lg"
+    >
+      <span>{action.text}</span>
+      <Button size="sm" variant="outline" onClick={() => {
+        action.undo();
+        onDismiss();
+      }}>
+        Undo
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onDismiss}>Dismiss</Button>
+    </div>
+  );
+}
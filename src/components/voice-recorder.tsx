@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { createAttachment, type NewAttachment } from '@/lib/attachments';
+
+// The first of these the browser can record is used; Safari only does MP4.
+const AUDIO_TYPES = [
+  ['audio/webm;codecs=opus', 'webm'],
+  ['audio/webm', 'webm'],
+  ['audio/mp4', 'm4a'],
+  ['audio/ogg;codecs=opus', 'ogg'],
+];
+
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Records a voice memo from the microphone. `onStart` is called as soon as
+ * recording begins, `onRecorded` once it has been stopped and saved.
+ */
+export function VoiceRecorder({ onStart, onRecorded, onError }: {
+  onStart: () => void,
+  onRecorded: (attachment: NewAttachment) => void,
+  onError: (error: unknown) => void,
+}) {
+  const [recording, setRecording] = useState<boolean>(false);
+  const [elapsed, setElapsed] = useState<number>(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  useEffect(() => {
+    if (!recording) return;
+    const started = Date.now();
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - started) / 1000)), 500);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Leaving the form mid-recording throws the recording away.
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    recorder.stop();
+    recorder.stream.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const start = async () => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices) {
+      onError(new Error('This browser cannot record audio.'));
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      onError(error);
+      return;
+    }
+    const [mimeType, extension] = AUDIO_TYPES.find(([type]) => MediaRecorder.isTypeSupported(type)) ?? ['', 'webm'];
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = new Date();
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      const type = recorder.mimeType.split(';')[0] || 'audio/webm';
+      const name = `Voice memo ${startedAt.toLocaleString().replace(/[/:]/g, '-')}.${extension}`;
+      try {
+        onRecorded(await createAttachment(new File(chunks, name, { type })));
+      } catch (error) {
+        onError(error);
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsed(0);
+    setRecording(true);
+    onStart();
+  };
+
+  const stop = () => {
+    recorderRef.current?.stop();
+    setRecording(false);
+  };
+
+  return recording ? (
+    <Button size="sm" variant="destructive" onClick={stop}>
+      <span className="mr-2 h-2 w-2 rounded-full bg-white animate-pulse" />
+      Stop recording ({formatElapsed(elapsed)})
+    </Button>
+  ) : (
+    <Button size="sm" variant="outline" onClick={start}>
+      Record voice memo
+    </Button>
+  );
+}
@@ -0,0 +1,78 @@
+import exifr from 'exifr';
+import type { GeoPoint } from './geo';
+import type { AttachmentData, AttachmentInfo } from './types';
+
+const THUMBNAIL_SIZE = 256;
+
+export const isImage = (attachment: Pick<AttachmentInfo, 'type'>) => attachment.type.startsWith('image/');
+
+export const isAudio = (attachment: Pick<AttachmentInfo, 'type'>) => attachment.type.startsWith('audio/');
+
+export const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+// Formats the browser cannot decode (e.g. HEIC outside Safari) get no thumbnail.
+const createThumbnail = async (file: Blob): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+};
+
+/** An attachment is kept as its info on the note plus its stored data. */
+export interface NewAttachment {
+  info: AttachmentInfo;
+  data: AttachmentData;
+}
+
+export const createAttachment = async (file: File): Promise<NewAttachment> => {
+  const id = crypto.randomUUID();
+  const info = { id, name: file.name, type: file.type, size: file.size };
+  return {
+    info,
+    data: { id, blob: file, thumbnail: isImage(info) ? await createThumbnail(file) : null },
+  };
+};
+
+/** Stores a file that arrived without its thumbnail, e.g. by sync. */
+export const attachmentFromBlob = async (info: AttachmentInfo, blob: Blob): Promise<AttachmentData> => ({
+  id: info.id,
+  blob,
+  thumbnail: isImage(info) ? await createThumbnail(blob) : null,
+});
+
+export interface PhotoMetadata {
+  location: GeoPoint | null;
+  /** When the photo was taken, if the camera recorded it. */
+  date: number | null;
+}
+
+/** Reads the GPS position and capture time from a photo's EXIF data. */
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    const exif = await exifr.parse(file, { gps: true });
+    const latitude = exif?.latitude;
+    const longitude = exif?.longitude;
+    const date = exif?.DateTimeOriginal ?? exif?.CreateDate;
+    return {
+      location: Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : null,
+      date: date instanceof Date && !isNaN(date.getTime()) ? date.getTime() : null,
+    };
+  } catch {
+    // Not a photo, or one without EXIF data.
+    return { location: null, date: null };
+  }
+};
@@ -0,0 +1,53 @@
+import { noteLocation } from './geo';
+import { normalizeNotebook } from './tags';
+import { noLocation, type NoteData } from './types';
+
+/**
+ * The ids from `anchor` to `target` in list order, both included, for
+ * shift-clicking a range. Just `target` if `anchor` is no longer listed.
+ */
+export const selectRange = (order: number[], anchor: number | null, target: number): number[] => {
+  const from = anchor === null ? -1 : order.indexOf(anchor);
+  const to = order.indexOf(target);
+  if (from === -1 || to === -1) return [target];
+  return order.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+/** A change to the tags and notebook of several notes at once. */
+export interface BulkEdit {
+  addTags: string[];
+  removeTags: string[];
+  /** The notebook to move the notes to, null for none, or undefined to leave them where they are. */
+  notebook?: string | null;
+}
+
+/** The note with `edit` applied, or null if that changes nothing. */
+export const applyBulkEdit = (note: NoteData, edit: BulkEdit): NoteData | null => {
+  const tags = [...new Set([...note.tags.filter((tag) => !edit.removeTags.includes(tag)), ...edit.addTags])];
+  const notebook = edit.notebook === undefined ? note.notebook : normalizeNotebook(edit.notebook);
+  if (tags.join(',') === note.tags.join(',') && notebook === note.notebook) return null;
+  return { ...note, tags, notebook, updated: Date.now() };
+};
+
+/**
+ * Combines notes into one numbered `id`. Their contents follow each other
+ * from the oldest, and the merged note is dated like the oldest. It is
+ * placed where the first of them with a location was taken, with that
+ * note's place name and reminder, and carries all their tags and
+ * attachments.
+ */
+export const combineNotes = (notes: NoteData[], id: number): NoteData => {
+  const sorted = [...notes].sort((a, b) => a.date - b.date || a.id - b.id);
+  const located = sorted.find((note) => note.locationSource !== 'pending' && noteLocation(note));
+  return {
+    ...(located ?? { ...sorted[0], ...noLocation, place: null, reminderRadius: null }),
+    id,
+    content: sorted.map((note) => note.content.trim()).filter(Boolean).join('\n\n'),
+    date: sorted[0].date,
+    updated: Date.now(),
+    tags: [...new Set(sorted.flatMap((note) => note.tags))],
+    notebook: sorted.find((note) => note.notebook !== null)?.notebook ?? null,
+    attachments: sorted.flatMap((note) => note.attachments),
+    trackId: sorted.find((note) => note.trackId !== null)?.trackId ?? null,
+  };
+};
@@ -0,0 +1,69 @@
+import { unzipSync, zipSync, type Zippable } from 'fflate';
+import { NoteFormatError, parseNotes, serializeNotes, type ParsedNotes } from './formats';
+import type { AttachmentData, NoteData, Track } from './types';
+
+// A bundle is a zip holding the JSON export next to every attachment:
+//
+//   notes.json
+//   attachments/<attachment id>/<file name>
+//   thumbnails/<attachment id>.jpg
+const NOTES_FILE = 'notes.json';
+
+const attachmentPath = (id: string, name: string) => `attachments/${id}/${name.replace(/[/\\]/g, '_') || 'file'}`;
+const thumbnailPath = (id: string) => `thumbnails/${id}.jpg`;
+
+const bytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+export const createBundle = async (notes: NoteData[], lastId: number, attachments: AttachmentData[], tracks: Track[] = []): Promise<Uint8Array> => {
+  const stored = new Map(attachments.map((attachment) => [attachment.id, attachment]));
+  const files: Zippable = {
+    [NOTES_FILE]: new TextEncoder().encode(serializeNotes(notes, 'json', lastId, tracks).data),
+  };
+  for (const note of notes) {
+    for (const { id, name } of note.attachments) {
+      const attachment = stored.get(id);
+      if (!attachment) continue;
+      // Photos and most other attachments are compressed already.
+      files[attachmentPath(id, name)] = [await bytes(attachment.blob), { level: 0 }];
+      if (attachment.thumbnail) files[thumbnailPath(id)] = [await bytes(attachment.thumbnail), { level: 0 }];
+    }
+  }
+  return zipSync(files);
+};
+
+export interface ParsedBundle extends ParsedNotes {
+  attachments: AttachmentData[];
+}
+
+/** Reads a bundle written by `createBundle`. Attachments missing from it are dropped from their notes. */
+export const readBundle = (data: Uint8Array): ParsedBundle => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new NoteFormatError('This file is not a valid zip archive.');
+  }
+  if (!files[NOTES_FILE]) {
+    throw new NoteFormatError(`This zip archive has no ${NOTES_FILE}, so it is not a Geo Note bundle.`);
+  }
+  const parsed = parseNotes(new TextDecoder().decode(files[NOTES_FILE]), 'json');
+  const attachments: AttachmentData[] = [];
+  const notes = parsed.notes.map((note) => ({
+    ...note,
+    attachments: note.attachments.filter(({ id, name, type }) => {
+      const file = files[attachmentPath(id, name)];
+      if (!file) {
+        parsed.skipped.push(`Note #${note.id}: attachment ${name} is missing from the bundle`);
+        return false;
+      }
+      const thumbnail = files[thumbnailPath(id)];
+      attachments.push({
+        id,
+        blob: new Blob([file], { type }),
+        thumbnail: thumbnail ? new Blob([thumbnail], { type: 'image/jpeg' }) : null,
+      });
+      return true;
+    }),
+  }));
+  return { ...parsed, notes, attachments };
+};
@@ -0,0 +1,155 @@
+// Passphrase-based encryption with WebCrypto: PBKDF2 turns a passphrase
+// into an AES-GCM key. Browsers offer no memory-hard KDF such as Argon2,
+// so PBKDF2 makes up for it with a high iteration count.
+
+/** OWASP's recommendation for PBKDF2 with SHA-256. */
+export const PBKDF2_ITERATIONS = 600_000;
+
+// Shorter passphrases are too quick to guess, whatever the key derivation.
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Why a new passphrase cannot be used, or null if it can. */
+export const checkNewPassphrase = (passphrase: string, repeated: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  if (passphrase !== repeated) return 'The passphrases do not match.';
+  return null;
+};
+
+export interface KeyDerivation {
+  salt: Uint8Array;
+  iterations: number;
+}
+
+/** AES-GCM output together with the nonce it was made with. */
+export interface Ciphertext {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor(message = 'The passphrase is not correct.') {
+    super(message);
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export const newKeyDerivation = (): KeyDerivation => ({
+  salt: crypto.getRandomValues(new Uint8Array(16)),
+  iterations: PBKDF2_ITERATIONS,
+});
+
+export const deriveKey = async (passphrase: string, { salt, iterations }: KeyDerivation): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey'],
+  );
+};
+
+export const encrypt = async (key: CryptoKey, data: BufferSource): Promise<Ciphertext> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+};
+
+/** Throws a `WrongPassphraseError` if the key is not the one the data was encrypted with. */
+export const decrypt = async (key: CryptoKey, { iv, data }: Ciphertext): Promise<ArrayBuffer> => {
+  try {
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+export const encryptJSON = (key: CryptoKey, value: unknown) => encrypt(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJSON = async <T>(key: CryptoKey, ciphertext: Ciphertext): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decrypt(key, ciphertext)));
+
+/**
+ * A random key for encrypting data, which is itself stored encrypted with
+ * a key derived from the passphrase. Changing the passphrase then only
+ * re-encrypts this key instead of everything it protects.
+ */
+export const generateDataKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']) as Promise<CryptoKey>;
+
+export const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<Ciphertext> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv }) };
+};
+
+/** The key can only be exported again, e.g. to wrap it anew, if `extractable` is set. */
+export const unwrapDataKey = async (wrapped: Ciphertext, wrappingKey: CryptoKey, extractable = false): Promise<CryptoKey> => {
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw', wrapped.data, wrappingKey, { name: 'AES-GCM', iv: wrapped.iv },
+      { name: 'AES-GCM', length: 256 }, extractable, ['encrypt', 'decrypt'],
+    );
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+// Encrypted exports are JSON, so they survive being mailed or pasted like
+// the plain ones. The file they hold, of any export format, is `data`.
+interface EncryptedFile {
+  app: 'geo-note';
+  encrypted: 1;
+  /** Name of the file before it was encrypted, which tells its format. */
+  name: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+export const ENCRYPTED_EXTENSION = 'enc';
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Spreading a large array into fromCharCode would overflow the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/** Encrypts an exported file with a passphrase of its own. */
+export const encryptFile = async (name: string, data: BlobPart, passphrase: string): Promise<string> => {
+  const derivation = newKeyDerivation();
+  const key = await deriveKey(passphrase, derivation);
+  const { iv, data: ciphertext } = await encrypt(key, await new Blob([data]).arrayBuffer());
+  const file: EncryptedFile = {
+    app: 'geo-note',
+    encrypted: 1,
+    name,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: derivation.iterations, salt: toBase64(derivation.salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file);
+};
+
+const readEncryptedFile = (bytes: Uint8Array): EncryptedFile | null => {
+  // Every encrypted export starts like this, so other files are not parsed in full.
+  if (!new TextDecoder().decode(bytes.subarray(0, 64)).startsWith('{"app":"geo-note","encrypted":')) return null;
+  try {
+    const file = JSON.parse(new TextDecoder().decode(bytes));
+    return file.encrypted === 1 && file.kdf?.name === 'PBKDF2' && file.cipher?.name === 'AES-GCM' ? file : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedFile = (bytes: Uint8Array) => readEncryptedFile(bytes) !== null;
+
+/** Decrypts a file written by `encryptFile`, resolving to its original name and contents. */
+export const decryptFile = async (bytes: Uint8Array, passphrase: string): Promise<{ name: string, data: Uint8Array }> => {
+  const file = readEncryptedFile(bytes);
+  if (!file) throw new Error('This is not an encrypted Geo Note export.');
+  const key = await deriveKey(passphrase, { salt: fromBase64(file.kdf.salt), iterations: file.kdf.iterations });
+  const data = await decrypt(key, { iv: fromBase64(file.cipher.iv), data: fromBase64(file.data).buffer });
+  return { name: file.name, data: new Uint8Array(data) };
+};
@@ -0,0 +1,543 @@
+import { normalizeNotebook, normalizeTag } from './tags';
+import { noLocation, type NoteData, type NoteLocation, type Track, type TrackPoint } from './types';
+
+export type NoteFormat = 'json' | 'geojson' | 'gpx' | 'kml';
+
+export const noteFormats: { format: NoteFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'json', label: 'Geo Note (JSON)', extension: 'json', mimeType: 'application/json' },
+  { format: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { format: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { format: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+];
+
+export interface SerializedNotes {
+  data: string;
+  filename: string;
+  mimeType: string;
+  /** Ids of notes the format could not represent. */
+  skipped: number[];
+}
+
+export interface ParsedNotes {
+  notes: NoteData[];
+  /** The id allocator value stored in the file, if the format carries one. */
+  lastId: number | null;
+  /** Only Geo Note's JSON and GPX carry tracks. */
+  tracks: Track[];
+  /** Human readable reasons for entries that were not imported. */
+  skipped: string[];
+}
+
+export class NoteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoteFormatError';
+  }
+}
+
+const hasLocation = (note: NoteData) => note.latitude !== null && note.longitude !== null;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Altitude is the optional third value of a GeoJSON position and a KML coordinate.
+const toPosition = (note: NoteData) => note.altitude !== null
+  ? [note.longitude, note.latitude, note.altitude]
+  : [note.longitude, note.latitude];
+
+const toGeoJSON = (notes: NoteData[]) => JSON.stringify({
+  type: 'FeatureCollection',
+  features: notes.map((note) => ({
+    type: 'Feature',
+    id: note.id,
+    // GeoJSON allows features without a geometry, so unlocated notes survive the round trip.
+    geometry: hasLocation(note) ? { type: 'Point', coordinates: toPosition(note) } : null,
+    properties: {
+      id: note.id,
+      content: note.content,
+      date: new Date(note.date).toISOString(),
+      tags: note.tags,
+      notebook: note.notebook,
+      locationSource: note.locationSource,
+      accuracy: note.accuracy,
+      altitudeAccuracy: note.altitudeAccuracy,
+      heading: note.heading,
+      speed: note.speed,
+      place: note.place,
+      reminderRadius: note.reminderRadius,
+    },
+  })),
+}, null, 2);
+
+// Namespace for the fields GPX has no element of its own for.
+const GEONOTE_NAMESPACE = 'https://github.com/YouXam/geo-note';
+
+const gpxExtensions = (note: NoteData) => {
+  const fields: [string, string | number | null][] = [
+    ['tags', note.tags.length > 0 ? note.tags.join(',') : null],
+    ['source', note.locationSource],
+    ['accuracy', note.accuracy],
+    ['altitudeAccuracy', note.altitudeAccuracy],
+    ['heading', note.heading],
+    ['speed', note.speed],
+    ['place', note.place],
+    ['track', note.trackId],
+    ['reminderRadius', note.reminderRadius],
+  ];
+  const elements = fields
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `<geonote:${name}>${escapeXml(String(value))}</geonote:${name}>`);
+  return elements.length > 0 ? `
+    <extensions>${elements.join('')}</extensions>` : '';
+};
+
+const gpxTrackPoint = (point: TrackPoint) => `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${point.altitude !== null ? `
+        <ele>${point.altitude}</ele>` : ''}
+        <time>${new Date(point.time).toISOString()}</time>${point.accuracy !== null ? `
+        <extensions><geonote:accuracy>${point.accuracy}</geonote:accuracy></extensions>` : ''}
+      </trkpt>`;
+
+// The id links the track to the waypoints of the notes taken along it.
+const gpxTrack = (track: Track) => `  <trk>
+    <name>${escapeXml(track.name)}</name>
+    <extensions><geonote:id>${escapeXml(track.id)}</geonote:id><geonote:start>${new Date(track.start).toISOString()}</geonote:start>${track.end !== null ? `<geonote:end>${new Date(track.end).toISOString()}</geonote:end>` : ''}</extensions>
+    <trkseg>
+${track.points.map(gpxTrackPoint).join('\n')}
+    </trkseg>
+  </trk>`;
+
+const toGPX = (notes: NoteData[], tracks: Track[]) => {
+  const waypoints = notes.filter(hasLocation).map((note) => `  <wpt lat="${note.latitude}" lon="${note.longitude}">${note.altitude !== null ? `
+    <ele>${note.altitude}</ele>` : ''}
+    <time>${new Date(note.date).toISOString()}</time>
+    <name>${note.id}</name>
+    <desc>${escapeXml(note.content)}</desc>${note.notebook !== null ? `
+    <type>${escapeXml(note.notebook)}</type>` : ''}${gpxExtensions(note)}
+  </wpt>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Geo Note" xmlns="http://www.topografix.com/GPX/1/1" xmlns:geonote="${GEONOTE_NAMESPACE}">
+${[...waypoints, ...tracks.filter((track) => track.points.length > 0).map(gpxTrack)].join('\n')}
+</gpx>
+`;
+};
+
+const kmlData = (note: NoteData) => (['altitudeAccuracy', 'heading', 'speed', 'reminderRadius'] as const)
+  .filter((name) => note[name] !== null)
+  .map((name) => `
+        <Data name="${name}"><value>${note[name]}</value></Data>`)
+  .join('');
+
+const toKML = (notes: NoteData[]) => {
+  const placemarks = notes.map((note) => `    <Placemark id="note-${note.id}">
+      <name>Note #${note.id}</name>
+      <description>${escapeXml(note.content)}</description>
+      <TimeStamp><when>${new Date(note.date).toISOString()}</when></TimeStamp>
+      <ExtendedData>
+        <Data name="id"><value>${note.id}</value></Data>
+        <Data name="tags"><value>${escapeXml(note.tags.join(','))}</value></Data>${note.notebook !== null ? `
+        <Data name="notebook"><value>${escapeXml(note.notebook)}</value></Data>` : ''}${note.locationSource !== null ? `
+        <Data name="locationSource"><value>${note.locationSource}</value></Data>` : ''}${note.accuracy !== null ? `
+        <Data name="accuracy"><value>${note.accuracy}</value></Data>` : ''}${note.place !== null ? `
+        <Data name="place"><value>${escapeXml(note.place)}</value></Data>` : ''}${kmlData(note)}
+      </ExtendedData>${hasLocation(note) ? `
+      <Point><coordinates>${toPosition(note).join(',')}</coordinates></Point>` : ''}
+    </Placemark>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Geo Note</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+/** Writes notes, and the tracks they were taken on where the format has room for them. */
+export const serializeNotes = (notes: NoteData[], format: NoteFormat, lastId: number, tracks: Track[] = []): SerializedNotes => {
+  const { extension, mimeType } = noteFormats.find((entry) => entry.format === format)!;
+  const filename = `notes.${extension}`;
+  switch (format) {
+    case 'json':
+      return { data: JSON.stringify({ notes, id: lastId, tracks }), filename, mimeType, skipped: [] };
+    case 'geojson':
+      return { data: toGeoJSON(notes), filename, mimeType, skipped: [] };
+    case 'gpx':
+      // GPX waypoints must have coordinates, so unlocated notes cannot be exported.
+      return { data: toGPX(notes, tracks), filename, mimeType, skipped: notes.filter((note) => !hasLocation(note)).map((note) => note.id) };
+    case 'kml':
+      return { data: toKML(notes), filename, mimeType, skipped: [] };
+  }
+};
+
+const parseDate = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+};
+
+const parseId = (value: unknown): number | null => {
+  const id = typeof value === 'string' ? Number(value.replace(/^Note #/, '')) : value;
+  return typeof id === 'number' && Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const parseCoordinate = (value: unknown, limit: number): number | null => {
+  const coordinate = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof coordinate === 'number' && Number.isFinite(coordinate) && Math.abs(coordinate) <= limit ? coordinate : null;
+};
+
+// Only Geo Note's own JSON format carries attachments.
+type ParsedEntry = Omit<NoteData, 'id' | 'date' | 'updated' | 'attachments'> & {
+  id: number | null;
+  date: number | null;
+};
+
+const parseNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const parseNonNegative = (value: unknown) => {
+  const number = parseNumber(value);
+  return number !== null && number >= 0 ? number : null;
+};
+
+interface LocationDetails {
+  source?: unknown;
+  accuracy?: unknown;
+  altitude?: unknown;
+  altitudeAccuracy?: unknown;
+  heading?: unknown;
+  speed?: unknown;
+}
+
+// Files written by other tools do not say where a location came from, so
+// their locations count as set by hand unless the file says otherwise.
+const parseLocation = (
+  latitude: unknown,
+  longitude: unknown,
+  details: LocationDetails,
+  defaultSource: NoteLocation['locationSource'] = 'manual',
+): NoteLocation => {
+  const location = { latitude: parseCoordinate(latitude, 90), longitude: parseCoordinate(longitude, 180) };
+  if (location.latitude === null || location.longitude === null) return noLocation;
+  const heading = parseNumber(details.heading);
+  return {
+    ...location,
+    locationSource: details.source === 'gps' || details.source === 'manual' ? details.source : defaultSource,
+    accuracy: parseNonNegative(details.accuracy),
+    altitude: parseNumber(details.altitude),
+    altitudeAccuracy: parseNonNegative(details.altitudeAccuracy),
+    heading: heading !== null && heading >= 0 && heading < 360 ? heading : null,
+    speed: parseNonNegative(details.speed),
+  };
+};
+
+const parseTags = (value: unknown): string[] => {
+  const tags = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value.filter((tag) => typeof tag === 'string') : [];
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+};
+
+const parseNotebook = (value: unknown) => typeof value === 'string' ? normalizeNotebook(value) : null;
+
+const parsePlace = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const parseReminderRadius = (value: unknown) => {
+  const radius = parseNumber(value);
+  return radius !== null && radius > 0 ? radius : null;
+};
+
+// Foreign files may omit ids or reuse them, so any missing or repeated id is
+// replaced with the next free one after the highest id in the file.
+const assignIds = (entries: ParsedEntry[]): NoteData[] => {
+  const used = new Set<number>();
+  let nextId = Math.max(0, ...entries.map((entry) => entry.id ?? 0));
+  const now = Date.now();
+  return entries.map((entry) => {
+    let id = entry.id;
+    if (id === null || used.has(id)) id = ++nextId;
+    used.add(id);
+    const date = entry.date ?? now;
+    return { ...entry, id, date, updated: date, attachments: [] };
+  });
+};
+
+const isAttachment = (value: unknown) => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, name, type, size } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof name === 'string' && typeof type === 'string' &&
+    typeof size === 'number' && Number.isFinite(size) && size >= 0;
+};
+
+const isCoordinate = (value: unknown, limit: number) => value === null || (typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit);
+
+const isOptionalNumber = (value: unknown) => value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value));
+
+/** Describes why `value` is not a valid note, or returns null if it is one. */
+export const validateNote = (value: unknown): string | null => {
+  if (typeof value !== 'object' || value === null) return 'not an object';
+  const note = value as Record<string, unknown>;
+  if (parseId(note.id) === null || typeof note.id !== 'number') return 'id must be a positive integer';
+  if (typeof note.content !== 'string') return 'content must be a string';
+  if (typeof note.date !== 'number' || !Number.isFinite(note.date)) return 'date must be a timestamp';
+  if (!isOptionalNumber(note.updated)) return 'updated must be a timestamp';
+  if (!isCoordinate(note.latitude, 90)) return 'latitude must be null or between -90 and 90';
+  if (!isCoordinate(note.longitude, 180)) return 'longitude must be null or between -180 and 180';
+  if ((note.latitude === null) !== (note.longitude === null)) return 'latitude and longitude must both be set or both be null';
+  if (note.tags !== undefined && (!Array.isArray(note.tags) || note.tags.some((tag) => typeof tag !== 'string'))) return 'tags must be a list of strings';
+  if (note.notebook !== undefined && note.notebook !== null && typeof note.notebook !== 'string') return 'notebook must be null or a string';
+  if (note.place !== undefined && note.place !== null && typeof note.place !== 'string') return 'place must be null or a string';
+  if (note.attachments !== undefined && (!Array.isArray(note.attachments) || !note.attachments.every(isAttachment))) return 'attachments must be a list of attachment records';
+  if (note.locationSource !== undefined && note.locationSource !== null && !['gps', 'manual', 'pending'].includes(note.locationSource as string)) return 'locationSource must be null, "gps", "manual" or "pending"';
+  for (const field of ['accuracy', 'altitudeAccuracy', 'speed'] as const) {
+    if (!isOptionalNumber(note[field]) || (note[field] as number) < 0) return `${field} must be null or a non-negative number`;
+  }
+  if (!isOptionalNumber(note.altitude)) return 'altitude must be null or a number';
+  if (!isOptionalNumber(note.heading) || (note.heading as number) < 0 || (note.heading as number) >= 360) return 'heading must be null or between 0 and 360';
+  if (note.trackId !== undefined && note.trackId !== null && typeof note.trackId !== 'string') return 'trackId must be null or a string';
+  if (!isOptionalNumber(note.reminderRadius) || (typeof note.reminderRadius === 'number' && note.reminderRadius <= 0)) return 'reminderRadius must be null or a positive number';
+  return null;
+};
+
+const parseTrackPoint = (latitude: unknown, longitude: unknown, altitude: unknown, accuracy: unknown, time: number): TrackPoint | null => {
+  const point = { latitude: parseCoordinate(latitude, 90), longitude: parseCoordinate(longitude, 180) };
+  if (point.latitude === null || point.longitude === null) return null;
+  return { latitude: point.latitude, longitude: point.longitude, altitude: parseNumber(altitude), accuracy: parseNonNegative(accuracy), time };
+};
+
+// A track cut off mid-recording in the file is imported as finished, so it
+// cannot turn into a second recording alongside the one in progress here.
+const finishTrack = (id: string, name: string, start: number | null, end: number | null, points: TrackPoint[]): Track => {
+  const first = start ?? points[0]?.time ?? Date.now();
+  return { id, name, start: first, end: end ?? points[points.length - 1]?.time ?? first, points };
+};
+
+const parseJSONTrack = (value: unknown): Track | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, name, start, end, points } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !Array.isArray(points)) return null;
+  const parsed = points
+    .map((point) => parseTrackPoint(point?.latitude, point?.longitude, point?.altitude, point?.accuracy, parseDate(point?.time) ?? NaN))
+    .filter((point): point is TrackPoint => point !== null && Number.isFinite(point.time));
+  return finishTrack(id, typeof name === 'string' ? name : 'Imported track', parseDate(start), parseDate(end), parsed);
+};
+
+/** A note in Geo Note's JSON, which may lack the fields added since it was written. */
+type StoredNote = Pick<NoteData, 'id' | 'content' | 'date' | 'latitude' | 'longitude'> & Partial<NoteData>;
+
+/**
+ * Brings a note stored in Geo Note's JSON, once `validateNote` has accepted
+ * it, up to the current shape. `hasTrack` says whether its track is known here.
+ */
+export const readJSONNote = (note: StoredNote, hasTrack: (trackId: string) => boolean): NoteData => ({
+  id: note.id,
+  content: note.content,
+  date: note.date,
+  updated: note.updated ?? note.date,
+  // Exports from before locations could be set by hand only hold GPS fixes.
+  ...parseLocation(note.latitude, note.longitude, { ...note, source: note.locationSource }, 'gps'),
+  place: parsePlace(note.place),
+  tags: parseTags(note.tags),
+  notebook: parseNotebook(note.notebook),
+  attachments: (note.attachments ?? []).map(({ id, name, type, size }) => ({ id, name, type, size })),
+  trackId: typeof note.trackId === 'string' && hasTrack(note.trackId) ? note.trackId : null,
+  reminderRadius: note.reminderRadius ?? null,
+});
+
+const parseJSON = (text: string): ParsedNotes => {
+  const { notes, id, tracks = [] } = JSON.parse(text);
+  if (!Array.isArray(notes)) {
+    throw new NoteFormatError('This file is not a Geo Note export.');
+  }
+  const valid: NoteData[] = [];
+  const skipped: string[] = [];
+  const validTracks: Track[] = [];
+  (Array.isArray(tracks) ? tracks : []).forEach((value: unknown, index: number) => {
+    const track = parseJSONTrack(value);
+    if (track) validTracks.push(track);
+    else skipped.push(`Track ${index + 1}: not a valid track`);
+  });
+  const trackIds = new Set(validTracks.map((track) => track.id));
+  const seen = new Set<number>();
+  notes.forEach((note, index) => {
+    const problem = validateNote(note) ?? (seen.has(note.id) ? `id ${note.id} is used more than once` : null);
+    if (problem) {
+      skipped.push(`Note ${index + 1}: ${problem}`);
+      return;
+    }
+    seen.add(note.id);
+    valid.push(readJSONNote(note, (trackId) => trackIds.has(trackId)));
+  });
+  return { notes: valid, lastId: typeof id === 'number' ? id : null, skipped, tracks: validTracks };
+};
+
+const parseGeoJSON = (text: string): ParsedNotes => {
+  const collection = JSON.parse(text);
+  const features = collection?.type === 'FeatureCollection' ? collection.features : collection?.type === 'Feature' ? [collection] : null;
+  if (!Array.isArray(features)) {
+    throw new NoteFormatError('This file is not a GeoJSON Feature or FeatureCollection.');
+  }
+  const entries: ParsedEntry[] = [];
+  const skipped: string[] = [];
+  features.forEach((feature, index) => {
+    if (typeof feature !== 'object' || feature === null) {
+      skipped.push(`Feature ${index + 1}: not a GeoJSON feature`);
+      return;
+    }
+    const properties = feature.properties ?? {};
+    const geometry = feature.geometry;
+    if (geometry && geometry.type !== 'Point') {
+      skipped.push(`Feature ${index + 1}: ${geometry.type ?? 'untyped'} geometries are not supported`);
+      return;
+    }
+    if (geometry && !Array.isArray(geometry.coordinates)) {
+      skipped.push(`Feature ${index + 1}: its point has no coordinates`);
+      return;
+    }
+    const [longitude, latitude, altitude] = geometry?.coordinates ?? [];
+    const content = properties.content ?? properties.description ?? properties.name ?? '';
+    entries.push({
+      id: parseId(properties.id ?? feature?.id),
+      content: String(content),
+      date: parseDate(properties.date ?? properties.time ?? properties.timestamp),
+      ...parseLocation(latitude, longitude, { ...properties, source: properties.locationSource, altitude }),
+      place: parsePlace(properties.place),
+      tags: parseTags(properties.tags),
+      notebook: parseNotebook(properties.notebook),
+      trackId: null,
+      reminderRadius: parseReminderRadius(properties.reminderRadius),
+    });
+  });
+  return { notes: assignIds(entries), lastId: null, skipped, tracks: [] };
+};
+
+const parseXML = (text: string, rootName: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== rootName) {
+    throw new NoteFormatError(`This file is not a valid ${rootName.toUpperCase()} document.`);
+  }
+  return doc;
+};
+
+const childText = (element: Element, name: string): string | null => {
+  const child = Array.from(element.children).find((child) => child.localName === name);
+  return child?.textContent?.trim() ?? null;
+};
+
+const extensionText = (element: Element, name: string) => element.getElementsByTagNameNS(GEONOTE_NAMESPACE, name)[0]?.textContent?.trim();
+
+const parseGPXTrack = (element: Element): Track => {
+  let time = Date.now();
+  const points = Array.from(element.getElementsByTagNameNS('*', 'trkpt')).map((point) => {
+    // Points without a time of their own are taken to follow the one before.
+    time = parseDate(childText(point, 'time')) ?? time;
+    return parseTrackPoint(point.getAttribute('lat'), point.getAttribute('lon'), childText(point, 'ele'), extensionText(point, 'accuracy'), time);
+  }).filter((point): point is TrackPoint => point !== null);
+  return finishTrack(
+    extensionText(element, 'id') || crypto.randomUUID(),
+    childText(element, 'name') || 'Imported track',
+    parseDate(extensionText(element, 'start')),
+    parseDate(extensionText(element, 'end')),
+    points,
+  );
+};
+
+const parseGPX = (text: string): ParsedNotes => {
+  const doc = parseXML(text, 'gpx');
+  const tracks = Array.from(doc.getElementsByTagNameNS('*', 'trk')).map(parseGPXTrack);
+  const trackIds = new Set(tracks.map((track) => track.id));
+  const linkedTrack = (id: string | undefined) => id && trackIds.has(id) ? id : null;
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'wpt')).map((waypoint): ParsedEntry => ({
+    id: parseId(childText(waypoint, 'name')),
+    content: childText(waypoint, 'desc') ?? childText(waypoint, 'cmt') ?? childText(waypoint, 'name') ?? '',
+    date: parseDate(childText(waypoint, 'time')),
+    ...parseLocation(waypoint.getAttribute('lat'), waypoint.getAttribute('lon'), {
+      source: extensionText(waypoint, 'source'),
+      accuracy: extensionText(waypoint, 'accuracy'),
+      altitude: childText(waypoint, 'ele'),
+      altitudeAccuracy: extensionText(waypoint, 'altitudeAccuracy'),
+      heading: extensionText(waypoint, 'heading'),
+      speed: extensionText(waypoint, 'speed'),
+    }),
+    place: parsePlace(extensionText(waypoint, 'place')),
+    tags: parseTags(extensionText(waypoint, 'tags') ?? ''),
+    notebook: parseNotebook(childText(waypoint, 'type')),
+    trackId: linkedTrack(extensionText(waypoint, 'track')),
+    reminderRadius: parseReminderRadius(extensionText(waypoint, 'reminderRadius')),
+  }));
+  return { notes: assignIds(entries), lastId: null, skipped: [], tracks };
+};
+
+const parseKML = (text: string): ParsedNotes => {
+  const doc = parseXML(text, 'kml');
+  const entries: ParsedEntry[] = [];
+  const skipped: string[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'Placemark')).forEach((placemark, index) => {
+    const data = new Map(Array.from(placemark.getElementsByTagNameNS('*', 'Data')).map((element) => [
+      element.getAttribute('name'),
+      childText(element, 'value'),
+    ]));
+    const point = placemark.getElementsByTagNameNS('*', 'Point')[0];
+    if (!point && placemark.getElementsByTagNameNS('*', 'coordinates').length > 0) {
+      skipped.push(`Placemark ${index + 1}: only Point geometries are supported`);
+      return;
+    }
+    const [longitude, latitude, altitude] = (point ? childText(point, 'coordinates') ?? '' : '').split(',');
+    const timestamp = placemark.getElementsByTagNameNS('*', 'TimeStamp')[0];
+    entries.push({
+      id: parseId(data.get('id') ?? childText(placemark, 'name')),
+      content: childText(placemark, 'description') ?? childText(placemark, 'name') ?? '',
+      date: parseDate(data.get('date') ?? (timestamp ? childText(timestamp, 'when') : null)),
+      ...parseLocation(latitude, longitude, {
+        source: data.get('locationSource'),
+        accuracy: data.get('accuracy'),
+        altitude,
+        altitudeAccuracy: data.get('altitudeAccuracy'),
+        heading: data.get('heading'),
+        speed: data.get('speed'),
+      }),
+      place: parsePlace(data.get('place')),
+      tags: parseTags(data.get('tags') ?? ''),
+      notebook: parseNotebook(data.get('notebook')),
+      trackId: null,
+      reminderRadius: parseReminderRadius(data.get('reminderRadius')),
+    });
+  });
+  return { notes: assignIds(entries), lastId: null, skipped, tracks: [] };
+};
+
+/** Guesses the format from the file extension, falling back to sniffing the content. */
+export const detectFormat = (filename: string, text: string): NoteFormat => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  const known = noteFormats.find((entry) => entry.extension === extension);
+  if (known && extension !== 'json') return known.format;
+  const head = text.trimStart().slice(0, 512);
+  if (head.startsWith('<')) {
+    if (/<gpx[\s>]/.test(head)) return 'gpx';
+    if (/<kml[\s>]/.test(head)) return 'kml';
+  }
+  if (/"type"\s*:\s*"Feature(Collection)?"/.test(text)) return 'geojson';
+  return 'json';
+};
+
+export const parseNotes = (text: string, format: NoteFormat): ParsedNotes => {
+  try {
+    switch (format) {
+      case 'json':
+        return parseJSON(text);
+      case 'geojson':
+        return parseGeoJSON(text);
+      case 'gpx':
+        return parseGPX(text);
+      case 'kml':
+        return parseKML(text);
+    }
+  } catch (error) {
+    if (error instanceof NoteFormatError) throw error;
+    throw new NoteFormatError(`Could not read the file: ${(error as Error).message}`);
+  }
+};
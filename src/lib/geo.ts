@@ -0,0 +1,182 @@
+import type { NoteData, NoteLocation } from './types';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const EARTH_RADIUS = 6371008.8;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/** Great-circle distance between two points, in meters. */
+export const haversineDistance = (a: GeoPoint, b: GeoPoint) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Ray casting test treating coordinates as planar, which is accurate enough
+ * for areas drawn by hand on a web map. Points on an edge may go either way.
+ */
+export const pointInPolygon = (point: GeoPoint, polygon: GeoPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const boundsContain = (bounds: GeoBounds, point: GeoPoint) => {
+  if (point.latitude < bounds.south || point.latitude > bounds.north) return false;
+  // A viewport crossing the antimeridian has west > east.
+  return bounds.west <= bounds.east
+    ? point.longitude >= bounds.west && point.longitude <= bounds.east
+    : point.longitude >= bounds.west || point.longitude <= bounds.east;
+};
+
+// Ignores a viewport crossing the antimeridian, which is only an issue
+// when zoomed out too far for a center to mean much.
+export const boundsCenter = (bounds: GeoBounds): GeoPoint => ({
+  latitude: (bounds.south + bounds.north) / 2,
+  longitude: (bounds.west + bounds.east) / 2,
+});
+
+export const rectangleToPolygon = (a: GeoPoint, b: GeoPoint): GeoPoint[] => [
+  { latitude: a.latitude, longitude: a.longitude },
+  { latitude: a.latitude, longitude: b.longitude },
+  { latitude: b.latitude, longitude: b.longitude },
+  { latitude: b.latitude, longitude: a.longitude },
+];
+
+export const noteLocation = (note: Pick<NoteData, 'latitude' | 'longitude'>): GeoPoint | null =>
+  note.latitude !== null && note.longitude !== null ? { latitude: note.latitude, longitude: note.longitude } : null;
+
+export const formatDistance = (meters: number) => {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(meters < 10000 ? 2 : 1)} km`;
+};
+
+export const formatCoordinates = (point: GeoPoint) => `${point.latitude.toFixed(6)}, ${point.longitude.toFixed(6)}`;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const formatHeading = (degrees: number) => `${Math.round(degrees)}° ${COMPASS_POINTS[Math.round(degrees / 45) % 8]}`;
+
+export const formatSpeed = (metersPerSecond: number) => `${(metersPerSecond * 3.6).toFixed(1)} km/h`;
+
+/** Altitude, heading and speed of a GPS fix, for whichever of them the device reported. */
+export const describeMotion = (location: NoteLocation) => {
+  const parts: string[] = [];
+  if (location.altitude !== null) {
+    const accuracy = location.altitudeAccuracy !== null ? ` ±${formatDistance(location.altitudeAccuracy)}` : '';
+    parts.push(`${formatDistance(location.altitude)} altitude${accuracy}`);
+  }
+  if (location.heading !== null) parts.push(`heading ${formatHeading(location.heading)}`);
+  if (location.speed !== null) parts.push(formatSpeed(location.speed));
+  return parts.join(' · ');
+};
+
+export const describeLocation = (location: NoteLocation) => {
+  if (location.locationSource === 'pending') return 'Waiting for a GPS fix';
+  const point = noteLocation(location);
+  if (!point) return 'No location';
+  const source = location.locationSource === 'manual' ? 'set by hand' : 'GPS';
+  const accuracy = location.accuracy !== null ? ` ±${formatDistance(location.accuracy)}` : '';
+  return `${formatCoordinates(point)} (${source}${accuracy})`;
+};
+
+export type SpatialFilter =
+  | { type: 'none' }
+  | { type: 'near'; center: GeoPoint; radius: number }
+  | { type: 'viewport' }
+  | { type: 'area'; polygon: GeoPoint[] };
+
+/**
+ * Whether a note passes the spatial filter. Notes without a location never
+ * pass an active filter. `viewport` is the visible map area, when known.
+ */
+export const matchesSpatialFilter = (note: NoteData, filter: SpatialFilter, viewport: GeoBounds | null) => {
+  if (filter.type === 'none') return true;
+  const location = noteLocation(note);
+  if (!location) return false;
+  switch (filter.type) {
+    case 'near':
+      return haversineDistance(filter.center, location) <= filter.radius;
+    case 'viewport':
+      return viewport === null || boundsContain(viewport, location);
+    case 'area':
+      return pointInPolygon(location, filter.polygon);
+  }
+};
+
+const parseAngle = (numbers: string[], hemisphere: string | undefined) => {
+  if (numbers.length === 0 || numbers.length > 3) return null;
+  const [degrees, minutes = 0, seconds = 0] = numbers.map(Number);
+  if (minutes < 0 || minutes >= 60 || seconds < 0 || seconds >= 60) return null;
+  if (numbers.length > 1 && !Number.isInteger(degrees)) return null;
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const negative = numbers[0].startsWith('-') || hemisphere === 'S' || hemisphere === 'W';
+  return negative ? -value : value;
+};
+
+/**
+ * Parses coordinates typed by hand: decimal degrees (`48.8584, 2.2945`),
+ * degrees and decimal minutes (`N 48° 51.504' E 2° 17.670'`) or degrees,
+ * minutes and seconds (`48°51'30.2"N 2°17'40.2"E`). Without hemisphere
+ * letters the latitude comes first.
+ */
+export const parseCoordinates = (text: string): GeoPoint | null => {
+  const tokens = text.toUpperCase().match(/[NSEW]|-?\d+(?:\.\d+)?/g);
+  if (!tokens) return null;
+
+  const groups: { numbers: string[]; hemisphere?: string }[] = [];
+  const isLetter = (token: string) => /^[NSEW]$/.test(token);
+  if (!tokens.some(isLetter)) {
+    if (tokens.length % 2 !== 0) return null;
+    groups.push({ numbers: tokens.slice(0, tokens.length / 2) }, { numbers: tokens.slice(tokens.length / 2) });
+  } else if (isLetter(tokens[0])) {
+    // Hemisphere letters lead each coordinate: N 48 51 30 E 2 17 40.
+    tokens.forEach((token) => isLetter(token) ? groups.push({ numbers: [], hemisphere: token }) : groups[groups.length - 1].numbers.push(token));
+  } else {
+    // Hemisphere letters follow each coordinate: 48 51 30 N 2 17 40 E.
+    let numbers: string[] = [];
+    tokens.forEach((token) => {
+      if (isLetter(token)) {
+        groups.push({ numbers, hemisphere: token });
+        numbers = [];
+      } else {
+        numbers.push(token);
+      }
+    });
+    if (numbers.length > 0) return null;
+  }
+  if (groups.length !== 2) return null;
+
+  let [latitudeGroup, longitudeGroup] = groups;
+  if (latitudeGroup.hemisphere === 'E' || latitudeGroup.hemisphere === 'W') {
+    [latitudeGroup, longitudeGroup] = [longitudeGroup, latitudeGroup];
+  }
+  if (latitudeGroup.hemisphere && !'NS'.includes(latitudeGroup.hemisphere)) return null;
+  if (longitudeGroup.hemisphere && !'EW'.includes(longitudeGroup.hemisphere)) return null;
+
+  const latitude = parseAngle(latitudeGroup.numbers, latitudeGroup.hemisphere);
+  const longitude = parseAngle(longitudeGroup.numbers, longitudeGroup.hemisphere);
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
@@ -0,0 +1,249 @@
+import { formatDistance, haversineDistance, type GeoBounds, type GeoPoint } from './geo';
+import { foldText } from './search';
+import { getSettings } from './settings';
+import { currentLockState } from './storage';
+
+/** A place found by name. */
+export interface Place {
+  label: string;
+  point: GeoPoint;
+  /** The area the place covers, if the geocoder knows it. */
+  bounds: GeoBounds | null;
+}
+
+/**
+ * Turns coordinates into place names and back. A new source of place names
+ * only needs these two; caching and the like are added on top.
+ */
+export interface Geocoder {
+  /** Resolves to a short name for where `point` is, or null if there is none. */
+  reverse(point: GeoPoint): Promise<string | null>;
+  /** The best matches for `query`, best first. */
+  search(query: string): Promise<Place[]>;
+}
+
+export type GeocoderBackend = 'offline' | 'nominatim';
+
+export interface GeocoderConfig {
+  backend: GeocoderBackend;
+  /** Base URL of the Nominatim-compatible server; empty for the public one. */
+  url: string;
+}
+
+export const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Runs tasks one after another, starting each at least `interval`
+// milliseconds after the one before.
+const throttle = (interval: number) => {
+  let queue: Promise<unknown> = Promise.resolve();
+  let next = 0;
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(async () => {
+      await sleep(next - Date.now());
+      next = Date.now() + interval;
+      return task();
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+};
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  /** South, north, west, east. */
+  boundingbox?: [string, string, string, string];
+  address?: Record<string, string>;
+}
+
+// The full display name runs from the house number to the country; the
+// name of the spot and the town it is in are enough to recognise it.
+const shortLabel = ({ name, display_name, address = {} }: NominatimResult) => {
+  const spot = name || [address.road, address.house_number].filter(Boolean).join(' ');
+  const town = address.city ?? address.town ?? address.village ?? address.hamlet ?? address.municipality ?? address.county;
+  const parts = [spot, address.suburb ?? address.neighbourhood, town].filter((part, index, parts): part is string =>
+    Boolean(part) && parts.indexOf(part) === index);
+  return parts.length > 0 ? parts.join(', ') : display_name;
+};
+
+/**
+ * Looks places up with Nominatim, OpenStreetMap's geocoder, or a server
+ * with the same API. The public server allows one request per second.
+ */
+export const nominatimGeocoder = ({ url }: Pick<GeocoderConfig, 'url'>): Geocoder => {
+  const base = (url.trim() || NOMINATIM_URL).replace(/\/+$/, '');
+  const limit = throttle(1100);
+
+  const request = (path: string, params: Record<string, string>) => limit(async () => {
+    const query = new URLSearchParams({ format: 'jsonv2', ...params });
+    let response: Response;
+    try {
+      response = await fetch(`${base}/${path}?${query}`, { headers: { 'Accept-Language': navigator.language } });
+    } catch (error) {
+      throw new GeocodingError(`Could not reach ${new URL(base).host}: ${(error as Error).message}`);
+    }
+    if (response.status === 429) throw new GeocodingError('The geocoder is getting too many requests. Try again later.');
+    if (!response.ok) throw new GeocodingError(`The geocoder answered ${response.status} ${response.statusText}.`);
+    return response.json();
+  });
+
+  return {
+    reverse: async ({ latitude, longitude }) => {
+      const result: NominatimResult & { error?: string } = await request('reverse', {
+        lat: String(latitude),
+        lon: String(longitude),
+        addressdetails: '1',
+      });
+      return result.error ? null : shortLabel(result);
+    },
+    search: async (query) => {
+      const results: NominatimResult[] = await request('search', { q: query, limit: '5' });
+      return results.map((result) => {
+        const box = result.boundingbox?.map(Number);
+        return {
+          label: result.display_name,
+          point: { latitude: Number(result.lat), longitude: Number(result.lon) },
+          bounds: box ? { south: box[0], north: box[1], west: box[2], east: box[3] } : null,
+        };
+      });
+    },
+  };
+};
+
+// Within this of a town a note is placed in it, and farther than the
+// second the nearest town no longer says much about where the note is.
+const IN_TOWN = 10_000;
+const NEAR_TOWN = 150_000;
+
+type GazetteerEntry = [name: string, country: string, latitude: number, longitude: number];
+
+// A few hundred cities and towns, loaded the first time they are needed.
+let gazetteer: Promise<GazetteerEntry[]> | null = null;
+const loadGazetteer = () => {
+  gazetteer ??= import('./gazetteer.json').then((module) => module.default as GazetteerEntry[]);
+  return gazetteer;
+};
+
+/**
+ * Names places after the nearest of the bundled cities, without going
+ * online. It only knows larger towns, so labels are coarse.
+ */
+export const offlineGeocoder = (): Geocoder => ({
+  reverse: async (point) => {
+    let nearest: { entry: GazetteerEntry; distance: number } | null = null;
+    for (const entry of await loadGazetteer()) {
+      const distance = haversineDistance(point, { latitude: entry[2], longitude: entry[3] });
+      if (!nearest || distance < nearest.distance) nearest = { entry, distance };
+    }
+    if (!nearest || nearest.distance > NEAR_TOWN) return null;
+    const town = `${nearest.entry[0]}, ${nearest.entry[1]}`;
+    return nearest.distance <= IN_TOWN ? town : `${formatDistance(nearest.distance)} from ${town}`;
+  },
+  search: async (query) => {
+    const folded = foldText(query.trim());
+    if (!folded) return [];
+    return (await loadGazetteer())
+      .map((entry) => {
+        const name = foldText(entry[0]);
+        const rank = name === folded ? 0 : name.startsWith(folded) ? 1 : foldText(`${entry[0]}, ${entry[1]}`).includes(folded) ? 2 : -1;
+        return { entry, rank };
+      })
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, 5)
+      .map(({ entry: [name, country, latitude, longitude] }) => ({ label: `${name}, ${country}`, point: { latitude, longitude }, bounds: null }));
+  },
+});
+
+const PLACE_CACHE_KEY = 'placeCache';
+// Enough for the places of a long trip without filling up local storage.
+const MAX_CACHED_PLACES = 500;
+const MAX_CACHED_SEARCHES = 50;
+
+const loadPlaceCache = (): Map<string, string | null> => {
+  try {
+    return new Map(JSON.parse(localStorage.getItem(PLACE_CACHE_KEY) ?? '[]'));
+  } catch {
+    return new Map();
+  }
+};
+
+// Keeps at most `size` entries, dropping the ones used longest ago.
+const remember = <T>(cache: Map<string, T>, key: string, value: T, size: number) => {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > size) cache.delete(cache.keys().next().value!);
+};
+
+/**
+ * Adds caching to a geocoder. Place names are keyed by coordinates rounded
+ * to about ten meters, so notes taken at the same spot are looked up once,
+ * and kept across reloads unless the notebook is encrypted: they would give
+ * away where its notes were taken. Searches are only kept until the page is left.
+ */
+const cachedGeocoder = (geocoder: Geocoder, id: string): Geocoder => {
+  const places = loadPlaceCache();
+  const searches = new Map<string, Place[]>();
+  return {
+    reverse: async (point) => {
+      const key = `${id} ${point.latitude.toFixed(4)},${point.longitude.toFixed(4)}`;
+      if (places.has(key)) {
+        const place = places.get(key)!;
+        remember(places, key, place, MAX_CACHED_PLACES);
+        return place;
+      }
+      const place = await geocoder.reverse(point);
+      remember(places, key, place, MAX_CACHED_PLACES);
+      try {
+        if (currentLockState() === 'off') localStorage.setItem(PLACE_CACHE_KEY, JSON.stringify([...places]));
+        else localStorage.removeItem(PLACE_CACHE_KEY);
+      } catch (error) {
+        console.error(error);
+      }
+      return place;
+    },
+    search: async (query) => {
+      const key = query.trim().toLowerCase();
+      const cached = searches.get(key) ?? await geocoder.search(query);
+      remember(searches, key, cached, MAX_CACHED_SEARCHES);
+      return cached;
+    },
+  };
+};
+
+let current: { key: string; geocoder: Geocoder } | null = null;
+
+/** The geocoder chosen in the settings, or null if place names are turned off. */
+export const getGeocoder = (): Geocoder | null => {
+  const config = getSettings().geocoder;
+  if (!config) return null;
+  const key = config.backend === 'nominatim' ? `nominatim ${config.url.trim() || NOMINATIM_URL}` : 'offline';
+  // The same geocoder is handed out until the settings change, so its rate
+  // limit holds across every caller.
+  if (current?.key !== key) {
+    const geocoder = config.backend === 'nominatim' ? nominatimGeocoder(config) : offlineGeocoder();
+    current = { key, geocoder: cachedGeocoder(geocoder, key) };
+  }
+  return current.geocoder;
+};
+
+/** Drops every cached place name, e.g. once the notebook is encrypted. */
+export const forgetPlaces = () => {
+  current = null;
+  try {
+    localStorage.removeItem(PLACE_CACHE_KEY);
+  } catch (error) {
+    console.error(error);
+  }
+};
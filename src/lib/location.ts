@@ -0,0 +1,127 @@
+import type { GeoPoint } from './geo';
+import { getSettings } from './settings';
+import { currentLockState } from './storage';
+import { noLocation, type NoteLocation } from './types';
+
+const LAST_POSITION_KEY = 'lastPosition';
+
+let lastFix: GeolocationPosition | null = null;
+
+// Kept across reloads only while the notebook is not encrypted, as the
+// position would give away where it was used.
+const rememberFix = (position: GeolocationPosition) => {
+  lastFix = position;
+  try {
+    const { latitude, longitude } = position.coords;
+    if (currentLockState() === 'off') localStorage.setItem(LAST_POSITION_KEY, JSON.stringify({ latitude, longitude }));
+    else localStorage.removeItem(LAST_POSITION_KEY);
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/** Drops the stored last position, e.g. once the notebook is encrypted. */
+export const forgetLastPosition = () => {
+  try {
+    localStorage.removeItem(LAST_POSITION_KEY);
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/**
+ * Asks the browser for a GPS fix, giving up after the configured timeout. A
+ * fix younger than `maximumAge` milliseconds (the configured maximum age by
+ * default) is reused without asking again.
+ */
+export const getCurrentPosition = (
+  { maximumAge = getSettings().locationMaxAge * 1000 }: { maximumAge?: number } = {},
+): Promise<GeolocationPosition['coords']> => {
+  if (lastFix && Date.now() - lastFix.timestamp <= maximumAge) {
+    return Promise.resolve(lastFix.coords);
+  }
+  return new Promise((resolve, reject) => {
+    try {
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          rememberFix(position);
+          resolve(position.coords);
+        },
+        reject,
+        {
+          enableHighAccuracy: true,
+          timeout: getSettings().locationTimeout * 1000,
+          maximumAge
+        }
+      );
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Reports every position the browser delivers until the returned function is
+ * called, e.g. to log a track. A browser that cannot locate at all, e.g. on
+ * a page not served over HTTPS, is reported to `onError` as well.
+ */
+export const watchPosition = (
+  onPosition: (position: GeolocationPosition) => void,
+  onError: (error: unknown) => void,
+): () => void => {
+  if (!('geolocation' in navigator)) {
+    onError(new Error('This browser cannot tell the location.'));
+    return () => {};
+  }
+  let watchId: number;
+  try {
+    watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        rememberFix(position);
+        onPosition(position);
+      },
+      onError,
+      { enableHighAccuracy: true, maximumAge: 0 },
+    );
+  } catch (error) {
+    onError(error);
+    return () => {};
+  }
+  return () => navigator.geolocation.clearWatch(watchId);
+};
+
+// GeolocationPositionError is not an Error, but it does carry a message. It
+// is not looked up by name, since browsers without geolocation lack it too.
+export const locationErrorMessage = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : String(error);
+
+/** Where the last fix of this or an earlier session was, if there ever was one. */
+export const getLastKnownPosition = (): GeoPoint | null => {
+  if (lastFix) return { latitude: lastFix.coords.latitude, longitude: lastFix.coords.longitude };
+  try {
+    const point = JSON.parse(localStorage.getItem(LAST_POSITION_KEY) ?? 'null');
+    return typeof point?.latitude === 'number' && typeof point?.longitude === 'number' ? point : null;
+  } catch {
+    return null;
+  }
+};
+
+// Browsers report NaN for the heading of a device standing still.
+const finiteOrNull = (value: number | null) => value !== null && Number.isFinite(value) ? value : null;
+
+/** Everything a note keeps from a GPS fix. */
+export const locationFromCoords = (coords: GeolocationCoordinates): NoteLocation => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  locationSource: 'gps',
+  accuracy: finiteOrNull(coords.accuracy),
+  altitude: finiteOrNull(coords.altitude),
+  altitudeAccuracy: finiteOrNull(coords.altitudeAccuracy),
+  heading: finiteOrNull(coords.heading),
+  speed: finiteOrNull(coords.speed),
+});
+
+export const manualLocation = (point: GeoPoint): NoteLocation => ({ ...noLocation, ...point, locationSource: 'manual' });
+
+/** A position read from a photo's EXIF data, which the camera got from GPS. */
+export const photoLocation = (point: GeoPoint): NoteLocation => ({ ...noLocation, ...point, locationSource: 'gps' });
@@ -0,0 +1,40 @@
+import { useSyncExternalStore } from 'react';
+import { currentLockState, subscribeLockState } from './storage';
+
+/** Whether the notebook is encrypted and unlocked; components re-render when it is locked or unlocked. */
+export const useLockState = () => useSyncExternalStore(subscribeLockState, currentLockState);
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Calls `onIdle` once nobody has used the page for `timeout` milliseconds.
+ * Time spent with the page hidden counts as idle too: timers may not run
+ * then, so the time is checked again when the page is shown. Returns a
+ * function that stops watching.
+ */
+export const watchInactivity = (timeout: number, onIdle: () => void) => {
+  let lastActive = Date.now();
+  let timer: ReturnType<typeof setTimeout>;
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(check, lastActive + timeout - Date.now());
+  };
+  const check = () => {
+    if (Date.now() - lastActive >= timeout) onIdle();
+    else schedule();
+  };
+  const active = () => {
+    lastActive = Date.now();
+  };
+  const visibilityChange = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, active, { passive: true }));
+  document.addEventListener('visibilitychange', visibilityChange);
+  schedule();
+  return () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, active));
+    document.removeEventListener('visibilitychange', visibilityChange);
+  };
+};
@@ -0,0 +1,87 @@
+import type { Element, ElementContent, Root } from 'hast';
+import { defaultSchema } from 'rehype-sanitize';
+import { highlight } from './search';
+
+/** Property set on task list checkboxes to the source offset of their list item. */
+export const TASK_OFFSET = 'dataTaskOffset';
+
+export const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    input: [...(defaultSchema.attributes?.input ?? []), TASK_OFFSET],
+  },
+};
+
+const visitElements = (node: Root | Element, callback: (element: Element) => void) => {
+  node.children.forEach((child) => {
+    if (child.type !== 'element') return;
+    callback(child);
+    visitElements(child, callback);
+  });
+};
+
+const findCheckbox = (element: Element): Element | undefined => {
+  for (const child of element.children) {
+    if (child.type !== 'element') continue;
+    if (child.tagName === 'input' && child.properties.type === 'checkbox') return child;
+    // Loose lists wrap the checkbox in a paragraph; nested lists hold their own.
+    if (child.tagName === 'p') {
+      const checkbox = findCheckbox(child);
+      if (checkbox) return checkbox;
+    }
+  }
+};
+
+/**
+ * Rehype plugin remembering where in the source each task list item starts,
+ * so a click on its checkbox can be written back with `toggleTask`. Must run
+ * before sanitizing, which drops source positions.
+ */
+export const rehypeTaskOffsets = () => (tree: Root) => {
+  visitElements(tree, (element) => {
+    if (element.tagName !== 'li' || element.position?.start.offset === undefined) return;
+    const checkbox = findCheckbox(element);
+    if (checkbox) checkbox.properties[TASK_OFFSET] = element.position.start.offset;
+  });
+};
+
+/** Rehype plugin wrapping search matches in `<mark>`, outside of code. */
+export const rehypeHighlight = ({ tokens }: { tokens: string[] }) => (tree: Root) => {
+  if (tokens.length === 0) return;
+  const walk = (node: Root | Element) => {
+    node.children = node.children.flatMap((child): ElementContent[] => {
+      if (child.type === 'element') {
+        if (child.tagName !== 'code') walk(child);
+        return [child];
+      }
+      if (child.type !== 'text') return [child as ElementContent];
+      return highlight(child.value, tokens).map((part): ElementContent => part.match
+        ? { type: 'element', tagName: 'mark', properties: {}, children: [{ type: 'text', value: part.text }] }
+        : { type: 'text', value: part.text });
+    }) as Root['children'] & Element['children'];
+  };
+  walk(tree);
+};
+
+const TASK_MARKER = /^((?:[-*+]|\d+[.)])[ \t]+)\[([ xX])\]/;
+
+/** Checks or unchecks the task list item starting at `offset` in `content`. */
+export const toggleTask = (content: string, offset: number) => {
+  const match = TASK_MARKER.exec(content.slice(offset));
+  if (!match) return content;
+  const position = offset + match[1].length + 1;
+  const checked = match[2] !== ' ';
+  return content.slice(0, position) + (checked ? ' ' : 'x') + content.slice(position + 1);
+};
+
+/**
+ * The start of a note's content for previews: its first few lines, cut at a
+ * word boundary once they grow past `length` characters.
+ */
+export const excerpt = (content: string, length = 120, lines = 3) => {
+  const text = content.trim().split('\n').filter((line) => line.trim()).slice(0, lines).join('\n');
+  if (text.length <= length) return text;
+  const cut = text.lastIndexOf(' ', length);
+  return `${text.slice(0, cut > length / 2 ? cut : length)}...`;
+};
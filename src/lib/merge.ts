@@ -0,0 +1,70 @@
+import type { NoteData } from './types';
+
+export interface ImportPlan {
+  /** Notes that will be created, already carrying their final ids. */
+  added: NoteData[];
+  /** Incoming versions of notes that already exist (same id and date). */
+  updated: NoteData[];
+  skipped: { note: NoteData; reason: string }[];
+  /** Incoming ids that collided with an existing note and were re-numbered. */
+  renumbered: { from: number; to: number }[];
+  /** The id allocator value after the plan has been applied. */
+  lastId: number;
+}
+
+const sameLocation = (a: NoteData, b: NoteData) => a.latitude === b.latitude && a.longitude === b.longitude;
+
+const attachmentIds = (note: NoteData) => note.attachments.map((attachment) => attachment.id).join(',');
+
+const sameMetadata = (a: NoteData, b: NoteData) =>
+  a.notebook === b.notebook && a.tags.join(',') === b.tags.join(',') && attachmentIds(a) === attachmentIds(b) &&
+  a.trackId === b.trackId && a.reminderRadius === b.reminderRadius;
+
+/** Whether two versions of a note say the same, in the same place, filed the same way. */
+export const sameNote = (a: NoteData, b: NoteData) => a.content === b.content && sameLocation(a, b) && sameMetadata(a, b);
+
+const contentKey = (note: NoteData) => JSON.stringify([note.content, note.latitude, note.longitude]);
+
+/**
+ * Works out how `incoming` notes would be merged into `existing` without
+ * touching storage, so the result can be previewed before it is applied.
+ *
+ * A note with the same id and date as an existing one is the same note: it is
+ * skipped if nothing changed and updated otherwise. A note with the same
+ * content and coordinates as an existing one is a duplicate and is skipped.
+ * Everything else is added, taking a fresh id if its own is already in use.
+ */
+export const planMerge = (existing: NoteData[], incoming: NoteData[], lastId: number): ImportPlan => {
+  const byId = new Map(existing.map((note) => [note.id, note]));
+  const contentKeys = new Set(existing.map(contentKey));
+  const taken = new Set(byId.keys());
+  // Start re-numbering past every id in either notebook, so a re-numbered
+  // note can never take an id that a later incoming note still needs.
+  let nextId = Math.max(lastId, ...existing.map((note) => note.id), ...incoming.map((note) => note.id));
+
+  const plan: ImportPlan = { added: [], updated: [], skipped: [], renumbered: [], lastId };
+
+  incoming.forEach((note) => {
+    const match = byId.get(note.id);
+    if (match && match.date === note.date) {
+      if (sameNote(match, note)) {
+        plan.skipped.push({ note, reason: 'already exists unchanged' });
+      } else {
+        plan.updated.push(note);
+      }
+      return;
+    }
+    if (contentKeys.has(contentKey(note))) {
+      plan.skipped.push({ note, reason: 'same content and location as an existing note' });
+      return;
+    }
+    const id = taken.has(note.id) ? ++nextId : note.id;
+    if (id !== note.id) plan.renumbered.push({ from: note.id, to: id });
+    taken.add(id);
+    contentKeys.add(contentKey(note));
+    plan.added.push({ ...note, id });
+  });
+
+  plan.lastId = Math.max(nextId, ...plan.added.map((note) => note.id));
+  return plan;
+};
@@ -0,0 +1,122 @@
+import type { GeoBounds } from './geo';
+import { currentLockState } from './storage';
+import { countTiles, OFFLINE_TILE_CACHE_PREFIX, BROWSED_TILE_CACHE, tilesInBounds, tileUrl, type BaseLayer } from './tiles';
+
+export interface OfflineArea {
+  id: string;
+  name: string;
+  /** Name of the base layer the tiles came from; areas saved before layers could be picked have none. */
+  layer?: string;
+  /** Left out while the notebook is encrypted, since it tells where the notebook is used. */
+  bounds?: GeoBounds;
+  minZoom: number;
+  maxZoom: number;
+  tiles: number;
+  /** Total size of the downloaded tiles. */
+  bytes: number;
+  created: number;
+}
+
+const AREAS_KEY = 'offlineAreas';
+
+/** A typical OpenStreetMap tile, for estimating the size of a download. */
+export const AVERAGE_TILE_BYTES = 15_000;
+
+// Tile servers are run on donations; their usage policies forbid scraping,
+// so a single download is kept to what a field trip plausibly needs.
+export const MAX_AREA_TILES = 5000;
+
+const CONCURRENT_DOWNLOADS = 2;
+
+export const offlineSupported = () => typeof caches !== 'undefined' && 'serviceWorker' in navigator;
+
+export const getOfflineAreas = (): OfflineArea[] => {
+  try {
+    return JSON.parse(localStorage.getItem(AREAS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveOfflineAreas = (areas: OfflineArea[]) => {
+  const stored = currentLockState() === 'off' ? areas : areas.map((area) => ({ ...area, bounds: undefined }));
+  localStorage.setItem(AREAS_KEY, JSON.stringify(stored));
+};
+
+/** Drops the stored bounds of every area, e.g. once the notebook is encrypted. */
+export const forgetAreaBounds = () => saveOfflineAreas(getOfflineAreas());
+
+export const estimateArea = (bounds: GeoBounds, minZoom: number, maxZoom: number) => {
+  const tiles = countTiles(bounds, minZoom, maxZoom);
+  return { tiles, bytes: tiles * AVERAGE_TILE_BYTES };
+};
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+/**
+ * Fetches every tile of `bounds` between the two zoom levels into a cache of
+ * its own, which the service worker serves tiles from before the network.
+ * Aborting through `signal` discards what was downloaded so far.
+ */
+export const downloadArea = async (
+  { name, bounds, minZoom, maxZoom, layer }: { name: string, bounds: GeoBounds, minZoom: number, maxZoom: number, layer: BaseLayer },
+  { onProgress, signal }: { onProgress: (progress: DownloadProgress) => void, signal: AbortSignal },
+): Promise<OfflineArea> => {
+  const total = countTiles(bounds, minZoom, maxZoom);
+  if (total > MAX_AREA_TILES) {
+    throw new Error(`This area needs ${total} tiles, more than the ${MAX_AREA_TILES} allowed at once. Zoom in or lower the maximum zoom.`);
+  }
+  const id = crypto.randomUUID();
+  const cacheName = OFFLINE_TILE_CACHE_PREFIX + id;
+  const cache = await caches.open(cacheName);
+  const tiles = tilesInBounds(bounds, minZoom, maxZoom);
+  const progress: DownloadProgress = { done: 0, total, failed: 0 };
+  let bytes = 0;
+
+  const worker = async () => {
+    for (let next = tiles.next(); !next.done; next = tiles.next()) {
+      if (signal.aborted) return;
+      const url = tileUrl(layer, next.value);
+      try {
+        const response = await fetch(url, { signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.clone().blob();
+        await cache.put(url, response);
+        bytes += blob.size;
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error(url, error);
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENT_DOWNLOADS }, worker));
+  if (signal.aborted) {
+    await caches.delete(cacheName);
+    throw new DOMException('The download was cancelled.', 'AbortError');
+  }
+  const area: OfflineArea = { id, name, layer: layer.name, bounds, minZoom, maxZoom, tiles: total - progress.failed, bytes, created: Date.now() };
+  saveOfflineAreas([...getOfflineAreas(), area]);
+  return area;
+};
+
+export const deleteOfflineArea = async (id: string) => {
+  await caches.delete(OFFLINE_TILE_CACHE_PREFIX + id);
+  saveOfflineAreas(getOfflineAreas().filter((area) => area.id !== id));
+};
+
+export const clearBrowsedTiles = () => caches.delete(BROWSED_TILE_CACHE);
+
+/** How much the browser lets this site store, and how much it uses. */
+export const storageEstimate = async () => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,118 @@
+import { formatDistance, haversineDistance, noteLocation } from './geo';
+import { excerpt } from './markdown';
+import { getSettings } from './settings';
+import { currentLockState } from './storage';
+import type { NoteData } from './types';
+
+/** Radii a note's reminder can be given, in meters. */
+export const REMINDER_RADII = [50, 100, 250, 500, 1000];
+
+// Once inside, a note's area only counts as left beyond this share of its
+// radius further out, so a fix wobbling across the edge is no new arrival.
+const EXIT_MARGIN = 0.2;
+
+const REMINDED_KEY = 'reminded';
+
+const loadReminded = (): Record<number, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(REMINDED_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// When each note last reminded, kept across reloads so the cooldown does not
+// start over with every visit to the page. Only while the notebook is not
+// encrypted, as it tells when the places of notes were visited.
+let reminded = loadReminded();
+// Notes whose area the last fix was inside.
+let inside = new Set<number>();
+// Where each note's area was at the last fix; null until the first fix.
+let areas: Map<number, string> | null = null;
+
+const areaKey = (note: NoteData) => `${note.reminderRadius} ${note.latitude} ${note.longitude}`;
+
+/** Drops the stored reminder times, e.g. once the notebook is encrypted. */
+export const forgetReminded = () => {
+  try {
+    localStorage.removeItem(REMINDED_KEY);
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/** Forgets where the last watch left off, so notes already around the first fix remind right away. */
+export const startReminders = () => {
+  inside = new Set();
+  areas = null;
+};
+
+/**
+ * The notes to remind of at a new fix: those whose area was just entered and
+ * that have not reminded within the configured cooldown. A reminder set or
+ * moved onto the current position waits until its area is left and entered
+ * again, so saving a note where one stands does not set it off. Fixes worse
+ * than the accuracy threshold are ignored.
+ */
+export const dueReminders = (notes: NoteData[], coords: GeolocationCoordinates, now = Date.now()): NoteData[] => {
+  const { accuracyThreshold, reminderCooldown } = getSettings();
+  if (coords.accuracy > accuracyThreshold) return [];
+  const due: NoteData[] = [];
+  const nextInside = new Set<number>();
+  const nextAreas = new Map<number, string>();
+  notes.forEach((note) => {
+    const location = noteLocation(note);
+    if (note.reminderRadius === null || !location) return;
+    const area = areaKey(note);
+    const moved = areas !== null && areas.get(note.id) !== area;
+    nextAreas.set(note.id, area);
+    const wasInside = inside.has(note.id);
+    if (haversineDistance(coords, location) > note.reminderRadius * (wasInside ? 1 + EXIT_MARGIN : 1)) return;
+    nextInside.add(note.id);
+    if (!wasInside && !moved && now - (reminded[note.id] ?? 0) >= reminderCooldown * 60 * 1000) due.push(note);
+  });
+  inside = nextInside;
+  areas = nextAreas;
+  if (due.length > 0) {
+    due.forEach((note) => reminded[note.id] = now);
+    // Reminders past their cooldown no longer hold anything back.
+    reminded = Object.fromEntries(Object.entries(reminded).filter(([, time]) => now - time < reminderCooldown * 60 * 1000));
+    try {
+      if (currentLockState() === 'off') localStorage.setItem(REMINDED_KEY, JSON.stringify(reminded));
+      else localStorage.removeItem(REMINDED_KEY);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+  return due;
+};
+
+/** Asks to show system notifications, unless that was already answered. */
+export const requestNotifications = async () => {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/** Shows a system notification for a reminder, if allowed; clicking it brings the app up. */
+export const notifyReminder = (note: NoteData, onClick: () => void) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(excerpt(note.content, 60, 1) || `Note #${note.id}`, {
+      body: `You are within ${formatDistance(note.reminderRadius ?? 0)} of note #${note.id}.`,
+      // A second reminder for the same note replaces the first instead of stacking up.
+      tag: `reminder-${note.id}`,
+    });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.error(error);
+  }
+};
@@ -0,0 +1,88 @@
+import type { NoteData } from './types';
+
+export interface NoteQuery {
+  text: string;
+  /** Earliest creation time to include, in milliseconds. */
+  from: number | null;
+  /** Latest creation time to include, in milliseconds. */
+  to: number | null;
+  location: 'any' | 'with' | 'without';
+}
+
+export const emptyQuery: NoteQuery = { text: '', from: null, to: null, location: 'any' };
+
+export const isEmptyQuery = (query: NoteQuery) =>
+  !query.text.trim() && query.from === null && query.to === null && query.location === 'any';
+
+const DIACRITICS = /\p{Diacritic}/gu;
+
+const foldChar = (char: string) => char.normalize('NFD').replace(DIACRITICS, '').toLowerCase();
+
+/**
+ * Lower-cases `text` and strips accents. `offsets[i]` is the index in `text`
+ * of the character that produced `folded[i]`, so matches found in the folded
+ * string can be mapped back for highlighting.
+ */
+const foldWithOffsets = (text: string) => {
+  let folded = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const foldedChar = foldChar(char);
+    folded += foldedChar;
+    for (let i = 0; i < foldedChar.length; i++) offsets.push(index);
+    index += char.length;
+  }
+  offsets.push(index);
+  return { folded, offsets };
+};
+
+export const foldText = (text: string) => text.normalize('NFD').replace(DIACRITICS, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => Array.from(new Set(foldText(text).match(/[\p{L}\p{N}]+/gu) ?? []));
+
+// Folding every note on every keystroke is the expensive part of a search,
+// so keep the folded content for as long as the note object lives.
+const foldedContent = new WeakMap<NoteData, string>();
+
+const getFoldedContent = (note: NoteData) => {
+  let folded = foldedContent.get(note);
+  if (folded === undefined) {
+    folded = foldText([note.content, note.notebook ?? '', note.place ?? '', ...note.tags].join('\n'));
+    foldedContent.set(note, folded);
+  }
+  return folded;
+};
+
+export const matchesQuery = (note: NoteData, query: NoteQuery, tokens = tokenize(query.text)) => {
+  if (query.from !== null && note.date < query.from) return false;
+  if (query.to !== null && note.date > query.to) return false;
+  const located = note.latitude !== null && note.longitude !== null;
+  if (query.location === 'with' && !located) return false;
+  if (query.location === 'without' && located) return false;
+  if (tokens.length === 0) return true;
+  const content = getFoldedContent(note);
+  return tokens.every((token) => content.includes(token));
+};
+
+/** Splits `text` into alternating plain and matching parts for the given search tokens. */
+export const highlight = (text: string, tokens: string[]): { text: string; match: boolean }[] => {
+  if (tokens.length === 0) return [{ text, match: false }];
+  const { folded, offsets } = foldWithOffsets(text);
+  const marked = new Array<boolean>(folded.length).fill(false);
+  tokens.forEach((token) => {
+    for (let start = folded.indexOf(token); start !== -1; start = folded.indexOf(token, start + 1)) {
+      marked.fill(true, start, start + token.length);
+    }
+  });
+
+  const parts: { text: string; match: boolean }[] = [];
+  let start = 0;
+  while (start < folded.length) {
+    let end = start;
+    while (end < folded.length && marked[end] === marked[start]) end++;
+    parts.push({ text: text.slice(offsets[start], offsets[end]), match: marked[start] });
+    start = end;
+  }
+  return parts.filter((part) => part.text);
+};
@@ -0,0 +1,88 @@
+import { useSyncExternalStore } from 'react';
+import type { GeocoderConfig } from './geocoding';
+import { currentLockState } from './storage';
+import type { SyncConfig } from './sync-adapters';
+import type { BaseLayer } from './tiles';
+
+export type Theme = 'system' | 'light' | 'dark';
+
+export interface Settings {
+  /** GPS fixes less accurate than this many meters are flagged for a retry. */
+  accuracyThreshold: number;
+  /** Seconds to wait for a GPS fix before giving up. */
+  locationTimeout: number;
+  /** A fix at most this many seconds old is reused instead of asking again. */
+  locationMaxAge: number;
+  theme: Theme;
+  /** Id of the preset or custom layer the map is drawn with. */
+  baseLayer: string;
+  /** Switch the map to a dark style, where the layer has one, while the app is dark. */
+  darkMap: boolean;
+  customLayers: BaseLayer[];
+  /**
+   * Where to sync notes with, or null to keep them on this device only.
+   * Always null while the notebook is encrypted, since sync would send the
+   * notes unencrypted and its password would be stored in the clear.
+   */
+  sync: SyncConfig | null;
+  /** Minutes without use after which an encrypted notebook locks itself; 0 never locks it. */
+  autoLock: number;
+  /** Watch the position and remind of notes with a reminder when coming near them. */
+  proximityReminders: boolean;
+  /** Minutes before the same note can remind again. */
+  reminderCooldown: number;
+  /** Where place names for note locations come from, or null to not look them up. */
+  geocoder: GeocoderConfig | null;
+}
+
+export const defaultSettings: Settings = {
+  accuracyThreshold: 50,
+  locationTimeout: 15,
+  locationMaxAge: 60,
+  theme: 'system',
+  baseLayer: 'osm',
+  darkMap: true,
+  customLayers: [],
+  sync: null,
+  autoLock: 5,
+  proximityReminders: false,
+  reminderCooldown: 60,
+  // The bundled list of towns works offline and sends locations nowhere.
+  geocoder: { backend: 'offline', url: '' },
+};
+
+const SETTINGS_KEY = 'settings';
+
+const load = (): Settings => {
+  try {
+    return { ...defaultSettings, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return defaultSettings;
+  }
+};
+
+let settings = load();
+const listeners = new Set<() => void>();
+
+export const getSettings = () => settings;
+
+export const updateSettings = (changes: Partial<Settings>) => {
+  settings = { ...settings, ...changes };
+  const encrypted = ['locked', 'unlocked'].includes(currentLockState());
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(encrypted ? { ...settings, sync: null } : settings));
+  } catch (error) {
+    console.error(error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** The current settings; components re-render whenever they change. */
+export const useSettings = () => useSyncExternalStore(subscribe, getSettings);
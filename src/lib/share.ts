@@ -0,0 +1,85 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { fromBase64, toBase64 } from './crypto';
+import { NoteFormatError, readJSONNote, validateNote } from './formats';
+import type { GeoPoint } from './geo';
+import type { NoteData } from './types';
+
+/** What a share link carries of a note. Attachments and how it is filed stay behind. */
+export interface SharedNote {
+  content: string;
+  date: number;
+  latitude: number | null;
+  longitude: number | null;
+  tags: string[];
+}
+
+// Compressed JSON in the URL fragment, which browsers never send to the
+// server, so a shared note only travels as far as the link is passed on.
+const FRAGMENT_KEY = 'note';
+
+interface SharePayload {
+  v: 1;
+  c: string;
+  d: number;
+  /** Latitude and longitude. */
+  l?: [number, number];
+  t?: string[];
+}
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => fromBase64(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+/** A link to this app that carries the note in its fragment. */
+export const shareLink = (note: NoteData, base = window.location.href) => {
+  const payload: SharePayload = {
+    v: 1,
+    c: note.content,
+    d: note.date,
+    ...(note.latitude !== null && note.longitude !== null && { l: [note.latitude, note.longitude] }),
+    ...(note.tags.length > 0 && { t: note.tags }),
+  };
+  const url = new URL(base);
+  url.hash = `${FRAGMENT_KEY}=${toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }))}`;
+  return url.toString();
+};
+
+const fragmentPattern = new RegExp(`^#?${FRAGMENT_KEY}=([\\w-]+)$`);
+
+/** Whether a fragment carries a shared note, damaged or not. */
+export const isShareFragment = (hash: string) => fragmentPattern.test(hash);
+
+/**
+ * Reads the note from a fragment made by `shareLink`. Returns null if
+ * the fragment holds none, and throws a `NoteFormatError` if it is damaged,
+ * e.g. cut off when the link was copied.
+ */
+export const readShareFragment = (hash: string): SharedNote | null => {
+  const match = hash.match(fragmentPattern);
+  if (!match) return null;
+  let payload: SharePayload | null = null;
+  try {
+    payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(match[1]))));
+  } catch {
+    // Reported below, like any other damage.
+  }
+  if (typeof payload !== 'object' || payload === null) {
+    throw new NoteFormatError('This share link is damaged. Ask for it to be sent again.');
+  }
+  const [latitude = null, longitude = null] = Array.isArray(payload.l) ? payload.l : [];
+  const shared: SharedNote = { content: payload.c, date: payload.d, latitude, longitude, tags: payload.t ?? [] };
+  const problem = payload.v === 1 ? validateNote({ ...shared, id: 1 }) : 'made by a newer version of Geo Note';
+  if (problem) throw new NoteFormatError(`This share link cannot be read: ${problem}.`);
+  return shared;
+};
+
+/** The shared note as one of this notebook's, numbered `id`. */
+export const sharedNoteData = (shared: SharedNote, id: number): NoteData => readJSONNote({ ...shared, id }, () => false);
+
+/** A `geo:` URI (RFC 5870), which phones open in their map app. */
+export const geoUri = ({ latitude, longitude }: GeoPoint, accuracy: number | null = null) =>
+  `geo:${latitude},${longitude}${accuracy !== null ? `;u=${Math.round(accuracy)}` : ''}`;
+
+/** The point on openstreetmap.org, for browsers that have no app for `geo:` links. */
+export const mapLink = ({ latitude, longitude }: GeoPoint) =>
+  `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
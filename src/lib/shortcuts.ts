@@ -0,0 +1,58 @@
+export type ShortcutAction =
+  | 'commandPalette'
+  | 'newNote'
+  | 'save'
+  | 'cancel'
+  | 'nextNote'
+  | 'previousNote'
+  | 'editNote'
+  | 'focusSearch'
+  | 'centerMap'
+  | 'help';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  /** `KeyboardEvent.key`, compared without regard to case. */
+  key: string;
+  /** Whether Ctrl, or ⌘ on Apple devices, is held. */
+  mod: boolean;
+  /** Whether it also works while typing in a text field, where plain letters are text. */
+  whileTyping: boolean;
+  description: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'commandPalette', key: 'k', mod: true, whileTyping: true, description: 'Open the command palette' },
+  { action: 'newNote', key: 'n', mod: false, whileTyping: false, description: 'Write a new note' },
+  { action: 'save', key: 'Enter', mod: true, whileTyping: true, description: 'Save the note being written or edited' },
+  { action: 'cancel', key: 'Escape', mod: false, whileTyping: true, description: 'Stop writing or editing without saving' },
+  { action: 'nextNote', key: 'j', mod: false, whileTyping: false, description: 'Go to the next note' },
+  { action: 'previousNote', key: 'k', mod: false, whileTyping: false, description: 'Go to the previous note' },
+  { action: 'editNote', key: 'e', mod: false, whileTyping: false, description: 'Edit the current note' },
+  { action: 'focusSearch', key: '/', mod: false, whileTyping: false, description: 'Search notes' },
+  { action: 'centerMap', key: 'c', mod: false, whileTyping: false, description: 'Center the map on the current note, or on you' },
+  { action: 'help', key: '?', mod: false, whileTyping: false, description: 'Show the keyboard shortcuts' },
+];
+
+const apple = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** The action bound to a key press, or null if there is none. */
+export const matchShortcut = (event: KeyboardEvent): ShortcutAction | null => {
+  if (event.altKey || event.isComposing) return null;
+  const mod = apple ? event.metaKey : event.ctrlKey;
+  const typing = isTyping(event.target);
+  const shortcut = SHORTCUTS.find((shortcut) =>
+    shortcut.key.toLowerCase() === event.key.toLowerCase() && shortcut.mod === mod && (shortcut.whileTyping || !typing));
+  return shortcut?.action ?? null;
+};
+
+const keyNames: Record<string, string> = { Enter: 'Enter', Escape: 'Esc' };
+
+/** How a shortcut is written, e.g. "Ctrl+K". */
+export const formatShortcut = ({ key, mod }: Pick<Shortcut, 'key' | 'mod'>) =>
+  [...(mod ? [apple ? '⌘' : 'Ctrl'] : []), keyNames[key] ?? key.toUpperCase()].join('+');
+
+export const shortcutFor = (action: ShortcutAction) => formatShortcut(SHORTCUTS.find((shortcut) => shortcut.action === action)!);
@@ -0,0 +1,895 @@
+import {
+  decrypt,
+  decryptJSON,
+  deriveKey,
+  encrypt,
+  encryptJSON,
+  generateDataKey,
+  newKeyDerivation,
+  unwrapDataKey,
+  wrapDataKey,
+  type Ciphertext,
+  type KeyDerivation,
+} from './crypto';
+import type { AttachmentData, NoteData, NoteRevision, SyncBase, Tombstone, Track, TrashedNote } from './types';
+
+const DB_NAME = 'geo-note';
+const NOTES = 'notes';
+const META = 'meta';
+const ATTACHMENTS = 'attachments';
+const TRACKS = 'tracks';
+const REVISIONS = 'revisions';
+const TRASH = 'trash';
+const TOMBSTONES = 'tombstones';
+const LAST_ID = 'lastId';
+const SYNC_BASE = 'syncBase';
+const LOCK = 'lock';
+
+// Brings a note written by any older version up to the current shape by
+// filling in the fields that were added since.
+const upgradeNote = (note: Partial<NoteData>): NoteData => ({
+  tags: [],
+  notebook: null,
+  // Before locations could be set by hand, every location came from GPS.
+  locationSource: note.latitude != null ? 'gps' : null,
+  accuracy: null,
+  altitude: null,
+  altitudeAccuracy: null,
+  heading: null,
+  speed: null,
+  place: null,
+  attachments: [],
+  trackId: null,
+  reminderRadius: null,
+  // Notes stored before edits were timed count as unedited.
+  updated: note.date,
+  ...note,
+} as NoteData);
+
+// While the notebook is encrypted, records are stored as these: the fields
+// a store needs to find them by stay readable, and the rest is ciphertext.
+interface SealedRecord {
+  sealed: Ciphertext;
+  [field: string]: unknown;
+}
+
+const isSealed = (record: unknown): record is SealedRecord =>
+  typeof record === 'object' && record !== null && 'sealed' in record;
+
+const backfillNotes = (tx: IDBTransaction) => {
+  tx.objectStore(NOTES).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    // Encrypted notes cannot be read here; they are upgraded as they are decrypted.
+    if (!isSealed(cursor.value)) cursor.update(upgradeNote(cursor.value));
+    cursor.continue();
+  };
+};
+
+// Each entry upgrades the schema from version `index` to `index + 1`, so
+// new stores and indexes are added by appending a migration, never by
+// editing an existing one.
+const migrations: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    db.createObjectStore(NOTES, { keyPath: 'id' });
+    db.createObjectStore(META);
+  },
+  (_db, tx) => {
+    const notes = tx.objectStore(NOTES);
+    notes.createIndex('tags', 'tags', { multiEntry: true });
+    notes.createIndex('notebook', 'notebook');
+    backfillNotes(tx);
+  },
+  (_db, tx) => {
+    backfillNotes(tx);
+  },
+  (_db, tx) => {
+    backfillNotes(tx);
+  },
+  (db, tx) => {
+    db.createObjectStore(ATTACHMENTS, { keyPath: 'id' });
+    backfillNotes(tx);
+  },
+  (db, tx) => {
+    db.createObjectStore(TRACKS, { keyPath: 'id' });
+    backfillNotes(tx);
+  },
+  (db, tx) => {
+    db.createObjectStore(REVISIONS, { keyPath: 'id', autoIncrement: true }).createIndex('noteId', 'noteId');
+    db.createObjectStore(TRASH, { keyPath: 'id' });
+    backfillNotes(tx);
+  },
+  (_db, tx) => {
+    backfillNotes(tx);
+  },
+  (db) => {
+    db.createObjectStore(TOMBSTONES, { keyPath: 'id' });
+  },
+  (_db, tx) => {
+    backfillNotes(tx);
+  },
+  (_db, tx) => {
+    backfillNotes(tx);
+  },
+  (_db, tx) => {
+    // Tags and notebooks are filtered in memory, so these indexes only
+    // slowed down every write.
+    const notes = tx.objectStore(NOTES);
+    notes.deleteIndex('tags');
+    notes.deleteIndex('notebook');
+  },
+];
+
+// The stores whose records are encrypted, each with the fields left readable:
+// its key, and for revisions the note they belong to. Tombstones and the
+// sync base only hold ids and times, and stay readable so sync works the same.
+const plainFields: Record<string, string[]> = {
+  [NOTES]: ['id'],
+  [TRASH]: ['id'],
+  [REVISIONS]: ['id', 'noteId'],
+  [TRACKS]: ['id'],
+  [ATTACHMENTS]: ['id'],
+};
+const SEALED_STORES = Object.keys(plainFields);
+
+/** How the notebook is encrypted; stored in META while encryption is on. */
+interface LockRecord {
+  derivation: KeyDerivation;
+  /** The key records are encrypted with, itself encrypted with the key derived from the passphrase. */
+  dataKey: Ciphertext;
+}
+
+export type LockState = 'loading' | 'off' | 'locked' | 'unlocked';
+
+export class NotebookLockedError extends Error {
+  constructor() {
+    super('The notebook is locked. Unlock it with its passphrase to continue.');
+    this.name = 'NotebookLockedError';
+  }
+}
+
+// Undefined until read from the database. The data key only ever lives in
+// memory, and locking forgets it.
+let lockRecord: LockRecord | null | undefined;
+let dataKey: CryptoKey | null = null;
+const lockListeners = new Set<() => void>();
+
+const currentKey = (): CryptoKey | null => {
+  if (lockRecord && !dataKey) throw new NotebookLockedError();
+  return dataKey;
+};
+
+/** Encrypts a value for `storeName`, or returns it as it is when `key` is null. */
+const seal = async (storeName: string, value: object, key = currentKey()): Promise<object> => {
+  if (!key) return value;
+  const plain = plainFields[storeName];
+  const fields = Object.entries(value);
+  const readable = Object.fromEntries(fields.filter(([field]) => plain.includes(field)));
+  if (storeName === ATTACHMENTS) {
+    const { blob, thumbnail } = value as AttachmentData;
+    return {
+      ...readable,
+      type: blob.type,
+      sealed: await encrypt(key, await blob.arrayBuffer()),
+      thumbnail: thumbnail && await encrypt(key, await thumbnail.arrayBuffer()),
+    };
+  }
+  return { ...readable, sealed: await encryptJSON(key, Object.fromEntries(fields.filter(([field]) => !plain.includes(field)))) };
+};
+
+/** Decrypts a record of `storeName` if it is encrypted. */
+const unseal = async <T>(storeName: string, record: unknown, key = dataKey): Promise<T> => {
+  if (!isSealed(record)) return record as T;
+  if (!key) throw new NotebookLockedError();
+  const { sealed, ...readable } = record;
+  if (storeName === ATTACHMENTS) {
+    const thumbnail = readable.thumbnail as Ciphertext | null;
+    const attachment: AttachmentData = {
+      id: readable.id as string,
+      blob: new Blob([await decrypt(key, sealed)], { type: readable.type as string }),
+      thumbnail: thumbnail && new Blob([await decrypt(key, thumbnail)], { type: 'image/jpeg' }),
+    };
+    return attachment as T;
+  }
+  const value = { ...await decryptJSON<object>(key, sealed), ...readable };
+  return (storeName === NOTES || storeName === TRASH ? upgradeNote(value) : value) as T;
+};
+
+// Older revisions of a note are dropped once it has this many.
+const MAX_REVISIONS = 50;
+
+const DB_VERSION = migrations.length;
+
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageUnavailableError('This browser does not support IndexedDB, so notes cannot be stored.'));
+      return;
+    }
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch (error) {
+      reject(new StorageUnavailableError(`Note storage is disabled in this browser: ${(error as Error).message}`));
+      return;
+    }
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app opened in another tab upgrade the schema.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      reject(new StorageUnavailableError(`Could not open the note database: ${request.error?.message ?? 'unknown error'}`));
+    };
+  });
+};
+
+// Notes used to live in localStorage as one JSON blob plus an `id` counter.
+// Copy them over once and drop the old keys so this only ever runs once.
+// Notes that old were never encrypted.
+const migrateLocalStorage = async (db: IDBDatabase) => {
+  let storedNotes: string | null;
+  let storedId: string | null;
+  try {
+    storedNotes = localStorage.getItem('notes');
+    storedId = localStorage.getItem('id');
+  } catch {
+    return;
+  }
+  if (storedNotes === null) return;
+
+  let notes: NoteData[];
+  try {
+    notes = JSON.parse(storedNotes);
+  } catch (error) {
+    console.error('Could not migrate notes from localStorage', error);
+    return;
+  }
+  if (!Array.isArray(notes)) return;
+
+  const lastId = Math.max(parseInt(storedId ?? '0') || 0, ...notes.map((note) => note.id));
+  const tx = db.transaction([NOTES, META], 'readwrite');
+  const notesStore = tx.objectStore(NOTES);
+  notes.forEach((note) => notesStore.put(upgradeNote(note)));
+  tx.objectStore(META).put(lastId, LAST_ID);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  localStorage.removeItem('notes');
+  localStorage.removeItem('id');
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(async (db) => {
+      await migrateLocalStorage(db);
+      lockRecord = (await promisify<LockRecord | undefined>(db.transaction([META], 'readonly').objectStore(META).get(LOCK))) ?? null;
+      lockListeners.forEach((listener) => listener());
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const transact = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  callback: (tx: IDBTransaction) => Promise<T> | T,
+): Promise<T> => {
+  const db = await getDatabase();
+  // Another tab may have turned encryption on or off since the lock record
+  // was read, so it is read again along with any encrypted store.
+  const sealed = storeNames.some((storeName) => SEALED_STORES.includes(storeName));
+  const tx = db.transaction(sealed && !storeNames.includes(META) ? [...storeNames, META] : storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction was aborted'));
+  });
+  let result: T;
+  try {
+    if (sealed) followLockRecord((await promisify<LockRecord | undefined>(tx.objectStore(META).get(LOCK))) ?? null);
+    result = await callback(tx);
+  } catch (error) {
+    // Keep none of what the callback wrote before it failed.
+    try {
+      tx.abort();
+    } catch {
+      // The transaction had finished already.
+    }
+    done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+  return result;
+};
+
+/**
+ * IndexedDB commits a transaction as soon as no request is pending, so
+ * awaiting WebCrypto inside one would end it early. Like Dexie's `waitFor`,
+ * this keeps the transaction busy with cheap reads until `promise` settles.
+ */
+const waitFor = async <T>(tx: IDBTransaction, promise: Promise<T>): Promise<T> => {
+  let settled = false;
+  promise.then(() => settled = true, () => settled = true);
+  const store = tx.objectStore(tx.objectStoreNames[0]);
+  while (!settled) await promisify(store.count());
+  return promise;
+};
+
+/** Reads records within a transaction, decrypted; missing ones are undefined. */
+const getRecords = async <T>(tx: IDBTransaction, storeName: string, keys: IDBValidKey[]): Promise<(T | undefined)[]> => {
+  const store = tx.objectStore(storeName);
+  const records = await Promise.all(keys.map((key) => promisify(store.get(key))));
+  return waitFor(tx, Promise.all(records.map((record) => record === undefined ? undefined : unseal<T>(storeName, record))));
+};
+
+const getRecord = async <T>(tx: IDBTransaction, storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  (await getRecords<T>(tx, storeName, [key]))[0];
+
+const getAllRecords = async <T>(tx: IDBTransaction, storeName: string): Promise<T[]> => {
+  const records = await promisify<unknown[]>(tx.objectStore(storeName).getAll());
+  return waitFor(tx, Promise.all(records.map((record) => unseal<T>(storeName, record))));
+};
+
+/** Writes records within a transaction, encrypted if the notebook is. */
+const putRecords = async (tx: IDBTransaction, storeName: string, values: object[]) => {
+  const store = tx.objectStore(storeName);
+  (await waitFor(tx, Promise.all(values.map((value) => seal(storeName, value))))).forEach((record) => store.put(record));
+};
+
+const putRecord = (tx: IDBTransaction, storeName: string, value: object) => putRecords(tx, storeName, [value]);
+
+/** All stored notes, newest first. */
+export const getNotes = async (): Promise<NoteData[]> => {
+  const notes = await transact([NOTES], 'readonly', (tx) => getAllRecords<NoteData>(tx, NOTES));
+  return notes.sort((a, b) => b.id - a.id);
+};
+
+export interface AttachmentChanges {
+  added?: AttachmentData[];
+  /** Ids of attachments the note no longer has. */
+  removed?: string[];
+}
+
+const revisionOf = (note: NoteData, saved: number): Omit<NoteRevision, 'id'> => ({
+  noteId: note.id,
+  saved,
+  content: note.content,
+  tags: note.tags,
+  notebook: note.notebook,
+  latitude: note.latitude,
+  longitude: note.longitude,
+  locationSource: note.locationSource,
+  accuracy: note.accuracy,
+  altitude: note.altitude,
+  altitudeAccuracy: note.altitudeAccuracy,
+  heading: note.heading,
+  speed: note.speed,
+});
+
+const sameRevision = (a: Omit<NoteRevision, 'id'>, b: Omit<NoteRevision, 'id'>) =>
+  JSON.stringify({ ...a, saved: 0 }) === JSON.stringify({ ...b, saved: 0 });
+
+// The stored revisions of a note as they are, encrypted or not; only the
+// fields that stay readable are typed.
+const noteRevisions = (tx: IDBTransaction, noteId: number) =>
+  promisify<Pick<NoteRevision, 'id' | 'noteId'>[]>(tx.objectStore(REVISIONS).index('noteId').getAll(noteId));
+
+// Keeps `previous` as a revision if `note` changes what it says, where it is or how it is filed.
+const recordRevision = async (tx: IDBTransaction, previous: NoteData | undefined, note: NoteData) => {
+  const now = Date.now();
+  if (!previous || sameRevision(revisionOf(previous, now), revisionOf(note, now))) return;
+  const revisions = tx.objectStore(REVISIONS);
+  await putRecord(tx, REVISIONS, revisionOf(previous, now));
+  const stored = await noteRevisions(tx, note.id);
+  stored.slice(0, Math.max(0, stored.length + 1 - MAX_REVISIONS)).forEach((revision) => revisions.delete(revision.id));
+};
+
+/**
+ * Saves a note together with the attachments added to or removed from it.
+ * If this changes what the note says, where it is or how it is filed, the
+ * version it replaces is kept as a revision.
+ */
+export const putNote = (note: NoteData, { added = [], removed = [] }: AttachmentChanges = {}): Promise<void> => {
+  return transact([NOTES, ATTACHMENTS, REVISIONS], 'readwrite', async (tx) => {
+    await recordRevision(tx, await getRecord<NoteData>(tx, NOTES, note.id), note);
+    await putRecord(tx, NOTES, note);
+    await putRecords(tx, ATTACHMENTS, added);
+    const attachments = tx.objectStore(ATTACHMENTS);
+    removed.forEach((id) => attachments.delete(id));
+  });
+};
+
+/** Earlier versions of a note, the most recent first. */
+export const getRevisions = async (noteId: number): Promise<NoteRevision[]> => {
+  const revisions = await transact([REVISIONS], 'readonly', async (tx) =>
+    waitFor(tx, Promise.all((await noteRevisions(tx, noteId)).map((revision) => unseal<NoteRevision>(REVISIONS, revision)))));
+  return revisions.sort((a, b) => b.id - a.id);
+};
+
+// Also leaves a tombstone, so that sync deletes the notes on other devices too.
+const moveToTrash = async (tx: IDBTransaction, notes: NoteData[], deleted = Date.now()) => {
+  await putRecords(tx, TRASH, notes.map((note) => ({ ...note, deleted })));
+  const store = tx.objectStore(NOTES);
+  const tombstones = tx.objectStore(TOMBSTONES);
+  notes.forEach((note) => {
+    store.delete(note.id);
+    tombstones.put({ id: note.id, date: note.date, deleted });
+  });
+};
+
+/** Moves notes to the trash; their attachments and revisions are kept until they are purged. */
+export const deleteNotes = (ids: number[]): Promise<void> => {
+  return transact([NOTES, TRASH, TOMBSTONES], 'readwrite', async (tx) => {
+    const notes = await getRecords<NoteData>(tx, NOTES, ids);
+    await moveToTrash(tx, notes.filter((note): note is NoteData => note !== undefined));
+  });
+};
+
+export const deleteNote = (id: number): Promise<void> => deleteNotes([id]);
+
+/**
+ * Rewrites a stored note in a single transaction, so that changes made
+ * elsewhere since it was last read are not lost. `update` returns null to
+ * leave the note alone. Resolves to the stored note, or null if nothing was
+ * written.
+ */
+export const updateNote = (id: number, update: (note: NoteData) => NoteData | null): Promise<NoteData | null> => {
+  return transact([NOTES], 'readwrite', async (tx) => {
+    const note = await getRecord<NoteData>(tx, NOTES, id);
+    const updated = note ? update(note) : null;
+    if (updated) await putRecord(tx, NOTES, updated);
+    return updated;
+  });
+};
+
+/**
+ * Rewrites several notes in one go, keeping the versions they replace as
+ * revisions like `putNote` does. `update` returns null to leave a note
+ * alone. Resolves to the notes that were written.
+ */
+export const updateNotes = (ids: number[], update: (note: NoteData) => NoteData | null): Promise<NoteData[]> => {
+  return transact([NOTES, REVISIONS], 'readwrite', async (tx) => {
+    const updated: NoteData[] = [];
+    for (const note of await getRecords<NoteData>(tx, NOTES, ids)) {
+      const next = note ? update(note) : null;
+      if (!note || !next) continue;
+      await recordRevision(tx, note, next);
+      updated.push(next);
+    }
+    await putRecords(tx, NOTES, updated);
+    return updated;
+  });
+};
+
+/**
+ * Saves `merged`, made from the notes with the given ids, and moves those
+ * to the trash in the same transaction. They keep their attachments, which
+ * `merged` shares with them.
+ */
+export const mergeNotes = (merged: NoteData, ids: number[]): Promise<void> => {
+  return transact([NOTES, TRASH, TOMBSTONES], 'readwrite', async (tx) => {
+    const notes = await getRecords<NoteData>(tx, NOTES, ids);
+    await moveToTrash(tx, notes.filter((note): note is NoteData => note !== undefined));
+    await putRecord(tx, NOTES, merged);
+  });
+};
+
+/** Moves every note to the trash. Resolves to the ids of the notes moved. */
+export const clearNotes = (): Promise<number[]> => {
+  return transact([NOTES, TRASH, TOMBSTONES], 'readwrite', async (tx) => {
+    const notes = await getAllRecords<NoteData>(tx, NOTES);
+    await moveToTrash(tx, notes);
+    return notes.map((note) => note.id);
+  });
+};
+
+/**
+ * Replaces the whole notebook, e.g. when importing a backup. The notes it
+ * replaces go to the trash. The id allocator keeps counting past them, so
+ * they can be restored without clashing with the imported notes. Tracks are
+ * added to the stored ones rather than replacing them, since trashed notes
+ * still link to those; a track being recorded is never overwritten.
+ */
+export const replaceNotes = (notes: NoteData[], lastId: number, attachments: AttachmentData[] = [], tracks: Track[] = []): Promise<void> => {
+  return transact([NOTES, TRASH, TOMBSTONES, ATTACHMENTS, TRACKS, META], 'readwrite', async (tx) => {
+    await moveToTrash(tx, await getAllRecords<NoteData>(tx, NOTES));
+    await putRecords(tx, NOTES, notes);
+    await putRecords(tx, ATTACHMENTS, attachments);
+    const recording = new Set((await getAllRecords<Track>(tx, TRACKS)).filter((track) => track.end === null).map((track) => track.id));
+    await putRecords(tx, TRACKS, tracks.filter((track) => !recording.has(track.id)));
+    const meta = tx.objectStore(META);
+    const currentId = (await promisify<number | undefined>(meta.get(LAST_ID))) ?? 0;
+    meta.put(Math.max(currentId, lastId), LAST_ID);
+  });
+};
+
+/**
+ * Writes several notes at once, e.g. when merging an import, and makes sure
+ * the id allocator never falls behind `lastId`. Attachments that overwritten
+ * notes no longer have are deleted.
+ */
+export const putNotes = (notes: NoteData[], lastId: number, attachments: AttachmentData[] = [], tracks: Track[] = []): Promise<void> => {
+  return transact([NOTES, ATTACHMENTS, TRACKS, META], 'readwrite', async (tx) => {
+    const attachmentStore = tx.objectStore(ATTACHMENTS);
+    const previous = await getRecords<NoteData>(tx, NOTES, notes.map((note) => note.id));
+    notes.forEach((note, index) => {
+      const kept = new Set(note.attachments.map((attachment) => attachment.id));
+      previous[index]?.attachments
+        .filter((attachment) => !kept.has(attachment.id))
+        .forEach((attachment) => attachmentStore.delete(attachment.id));
+    });
+    await putRecords(tx, NOTES, notes);
+    await putRecords(tx, ATTACHMENTS, attachments);
+    await putRecords(tx, TRACKS, tracks);
+    const meta = tx.objectStore(META);
+    const currentId = (await promisify<number | undefined>(meta.get(LAST_ID))) ?? 0;
+    meta.put(Math.max(currentId, lastId), LAST_ID);
+  });
+};
+
+export const getLastId = (): Promise<number> => {
+  return transact([META], 'readonly', async (tx) => {
+    return (await promisify<number | undefined>(tx.objectStore(META).get(LAST_ID))) ?? 0;
+  });
+};
+
+/**
+ * Reserves the next note id. The read and the write share one transaction,
+ * so two tabs can never hand out the same id.
+ */
+export const allocateId = (): Promise<number> => {
+  return transact([META], 'readwrite', async (tx) => {
+    const store = tx.objectStore(META);
+    const id = ((await promisify<number | undefined>(store.get(LAST_ID))) ?? 0) + 1;
+    store.put(id, LAST_ID);
+    return id;
+  });
+};
+
+export const getAttachment = (id: string): Promise<AttachmentData | undefined> => {
+  return transact([ATTACHMENTS], 'readonly', (tx) => getRecord<AttachmentData>(tx, ATTACHMENTS, id));
+};
+
+/** The stored attachments among `ids`; missing ones are left out. */
+export const getAttachments = async (ids: string[]): Promise<AttachmentData[]> => {
+  const attachments = await transact([ATTACHMENTS], 'readonly', (tx) => getRecords<AttachmentData>(tx, ATTACHMENTS, ids));
+  return attachments.filter((attachment): attachment is AttachmentData => attachment !== undefined);
+};
+
+/** All stored tracks, most recently started first. */
+export const getTracks = async (): Promise<Track[]> => {
+  const tracks = await transact([TRACKS], 'readonly', (tx) => getAllRecords<Track>(tx, TRACKS));
+  return tracks.sort((a, b) => b.start - a.start);
+};
+
+export const putTrack = (track: Track): Promise<void> => {
+  return transact([TRACKS], 'readwrite', (tx) => putRecord(tx, TRACKS, track));
+};
+
+/** Rewrites a stored track in a single transaction, like `updateNote`. */
+export const updateTrack = (id: string, update: (track: Track) => Track | null): Promise<Track | null> => {
+  return transact([TRACKS], 'readwrite', async (tx) => {
+    const track = await getRecord<Track>(tx, TRACKS, id);
+    const updated = track ? update(track) : null;
+    if (updated) await putRecord(tx, TRACKS, updated);
+    return updated;
+  });
+};
+
+/**
+ * Deletes a track; the notes taken along it, including those in the trash,
+ * are kept but no longer linked to it.
+ */
+export const deleteTrack = (id: string): Promise<void> => {
+  return transact([NOTES, TRASH, TRACKS], 'readwrite', async (tx) => {
+    tx.objectStore(TRACKS).delete(id);
+    for (const storeName of [NOTES, TRASH]) {
+      const linked = (await getAllRecords<NoteData>(tx, storeName)).filter((note) => note.trackId === id);
+      await putRecords(tx, storeName, linked.map((note) => ({ ...note, trackId: null })));
+    }
+  });
+};
+
+/** Notes in the trash, the most recently deleted first. */
+export const getTrash = async (): Promise<TrashedNote[]> => {
+  const notes = await transact([TRASH], 'readonly', (tx) => getAllRecords<TrashedNote>(tx, TRASH));
+  return notes.sort((a, b) => b.deleted - a.deleted || b.id - a.id);
+};
+
+const untrash = (trashed: TrashedNote): NoteData => {
+  const note: Partial<TrashedNote> = { ...trashed };
+  delete note.deleted;
+  return note as NoteData;
+};
+
+/**
+ * Takes notes out of the trash. A note whose id has been given to another
+ * note in the meantime, e.g. by an import, comes back under a new id.
+ * Restoring counts as an edit, so that sync brings the note back on other
+ * devices rather than deleting it again. Resolves to the restored notes.
+ */
+export const restoreNotes = (ids: number[]): Promise<NoteData[]> => {
+  return transact([NOTES, TRASH, REVISIONS, TOMBSTONES, META], 'readwrite', async (tx) => {
+    const trash = tx.objectStore(TRASH);
+    const notes = tx.objectStore(NOTES);
+    const meta = tx.objectStore(META);
+    let lastId = (await promisify<number | undefined>(meta.get(LAST_ID))) ?? 0;
+    const restored: NoteData[] = [];
+    for (const id of ids) {
+      const trashed = await getRecord<TrashedNote>(tx, TRASH, id);
+      if (!trashed) continue;
+      const note = { ...untrash(trashed), updated: Date.now() };
+      if (await promisify(notes.getKey(id)) !== undefined) {
+        note.id = ++lastId;
+        const revisions = tx.objectStore(REVISIONS);
+        (await noteRevisions(tx, id)).forEach((revision) => revisions.put({ ...revision, noteId: note.id }));
+      } else {
+        tx.objectStore(TOMBSTONES).delete(id);
+      }
+      trash.delete(id);
+      await putRecord(tx, NOTES, note);
+      restored.push(note);
+    }
+    meta.put(Math.max(lastId, ...restored.map((note) => note.id)), LAST_ID);
+    return restored;
+  });
+};
+
+/**
+ * Deletes notes from the trash for good, along with their revisions and the
+ * attachments no other note shares, e.g. one the notes were merged into.
+ */
+export const purgeNotes = (ids: number[]): Promise<void> => {
+  return transact([NOTES, TRASH, ATTACHMENTS, REVISIONS], 'readwrite', async (tx) => {
+    const trash = tx.objectStore(TRASH);
+    const revisions = tx.objectStore(REVISIONS);
+    const purged = new Set(ids);
+    const kept = [...await getAllRecords<NoteData>(tx, NOTES), ...await getAllRecords<TrashedNote>(tx, TRASH)]
+      .filter((note) => !('deleted' in note) || !purged.has(note.id));
+    const shared = new Set(kept.flatMap((note) => note.attachments.map((attachment) => attachment.id)));
+    for (const id of ids) {
+      const note = await getRecord<TrashedNote>(tx, TRASH, id);
+      if (!note) continue;
+      trash.delete(id);
+      note.attachments
+        .filter((attachment) => !shared.has(attachment.id))
+        .forEach((attachment) => tx.objectStore(ATTACHMENTS).delete(attachment.id));
+      (await noteRevisions(tx, id)).forEach((revision) => revisions.delete(revision.id));
+    }
+  });
+};
+
+const emptySyncBase: SyncBase = { syncedAt: null, notes: {} };
+
+/** Everything sync compares with the remote, read in one go so it is consistent. */
+export interface SyncState {
+  notes: NoteData[];
+  tombstones: Tombstone[];
+  lastId: number;
+  base: SyncBase;
+}
+
+export const getSyncState = (): Promise<SyncState> => {
+  return transact([NOTES, TOMBSTONES, META], 'readonly', async (tx) => {
+    const meta = tx.objectStore(META);
+    return {
+      notes: await getAllRecords<NoteData>(tx, NOTES),
+      tombstones: await promisify<Tombstone[]>(tx.objectStore(TOMBSTONES).getAll()),
+      lastId: (await promisify<number | undefined>(meta.get(LAST_ID))) ?? 0,
+      base: (await promisify<SyncBase | undefined>(meta.get(SYNC_BASE))) ?? emptySyncBase,
+    };
+  });
+};
+
+/** What a sync changes on this device. */
+export interface SyncChanges {
+  /** Local notes moved to a new id because the remote gave theirs to another note. */
+  renumbered: { from: number; to: number }[];
+  /**
+   * Notes to write, each with the `updated` of the local note it replaces
+   * (null for none). A note edited here since sync read it is left alone.
+   */
+  put: { note: NoteData; replaces: number | null }[];
+  /** Notes deleted elsewhere; the local ones go to the trash. */
+  deleted: Tombstone[];
+  attachments: AttachmentData[];
+  lastId: number;
+  base: SyncBase;
+}
+
+/**
+ * Applies the outcome of a sync in one transaction. A note that was edited
+ * while sync talked to the remote keeps the edit and its previous base, so
+ * the next sync sees the clash and offers to resolve it.
+ */
+export const applySyncChanges = (changes: SyncChanges): Promise<void> => {
+  return transact([NOTES, TRASH, TOMBSTONES, REVISIONS, ATTACHMENTS, META], 'readwrite', async (tx) => {
+    const notes = tx.objectStore(NOTES);
+    const revisions = tx.objectStore(REVISIONS);
+    const meta = tx.objectStore(META);
+    const previousBase = (await promisify<SyncBase | undefined>(meta.get(SYNC_BASE))) ?? emptySyncBase;
+    const base: SyncBase = { ...changes.base, notes: { ...changes.base.notes } };
+    const keepPrevious = (id: number) => {
+      if (previousBase.notes[id]) base.notes[id] = previousBase.notes[id];
+      else delete base.notes[id];
+    };
+
+    for (const { from, to } of changes.renumbered) {
+      const note = await getRecord<NoteData>(tx, NOTES, from);
+      if (!note) continue;
+      notes.delete(from);
+      await putRecord(tx, NOTES, { ...note, id: to });
+      (await noteRevisions(tx, from)).forEach((revision) => revisions.put({ ...revision, noteId: to }));
+    }
+    for (const { note, replaces } of changes.put) {
+      const current = await getRecord<NoteData>(tx, NOTES, note.id);
+      if ((current?.updated ?? null) !== replaces) {
+        keepPrevious(note.id);
+        continue;
+      }
+      await recordRevision(tx, current, note);
+      await putRecord(tx, NOTES, note);
+      tx.objectStore(TOMBSTONES).delete(note.id);
+    }
+    for (const tombstone of changes.deleted) {
+      const current = await getRecord<NoteData>(tx, NOTES, tombstone.id);
+      if (current && current.date === tombstone.date) {
+        if (current.updated > tombstone.deleted) {
+          keepPrevious(tombstone.id);
+          continue;
+        }
+        await moveToTrash(tx, [current], tombstone.deleted);
+      } else {
+        tx.objectStore(TOMBSTONES).put(tombstone);
+      }
+    }
+    await putRecords(tx, ATTACHMENTS, changes.attachments);
+    const currentId = (await promisify<number | undefined>(meta.get(LAST_ID))) ?? 0;
+    meta.put(Math.max(currentId, changes.lastId), LAST_ID);
+    meta.put(base, SYNC_BASE);
+  });
+};
+
+/** Forgets what was last synced, e.g. when sync is pointed at another remote. */
+export const resetSyncBase = (): Promise<void> => {
+  return transact([META], 'readwrite', (tx) => {
+    tx.objectStore(META).delete(SYNC_BASE);
+  });
+};
+
+const readLockRecord = async () => {
+  lockRecord = await transact([META], 'readonly', (tx) => promisify<LockRecord | undefined>(tx.objectStore(META).get(LOCK))) ?? null;
+  return lockRecord;
+};
+
+const setLock = (record: LockRecord | null, key: CryptoKey | null) => {
+  lockRecord = record;
+  dataKey = key;
+  lockListeners.forEach((listener) => listener());
+};
+
+// Catches up with a lock record changed by another tab. The data key held
+// here may no longer be the one the notebook is encrypted with, so it is
+// forgotten: writes then fail with a `NotebookLockedError` rather than land
+// unencrypted or under the wrong key, until the notebook is unlocked again.
+const followLockRecord = (record: LockRecord | null) => {
+  if (lockRecord === undefined) return;
+  if (JSON.stringify(record?.derivation) === JSON.stringify(lockRecord?.derivation)) return;
+  setLock(record, null);
+};
+
+/** Whether the notebook is encrypted and, if so, unlocked; 'loading' until the database is open. */
+export const currentLockState = (): LockState =>
+  lockRecord === undefined ? 'loading' : !lockRecord ? 'off' : dataKey ? 'unlocked' : 'locked';
+
+export const subscribeLockState = (listener: () => void) => {
+  lockListeners.add(listener);
+  // Opening the database reads whether it is encrypted. If it cannot be
+  // opened there is nothing to unlock, and the app reports why.
+  getDatabase().catch(() => {
+    if (lockRecord === undefined) setLock(null, null);
+  });
+  return () => {
+    lockListeners.delete(listener);
+  };
+};
+
+/** Decrypts the data key with the passphrase. Throws a `WrongPassphraseError` if it is not the right one. */
+export const unlock = async (passphrase: string): Promise<void> => {
+  const record = await readLockRecord();
+  if (!record) return;
+  setLock(record, await unwrapDataKey(record.dataKey, await deriveKey(passphrase, record.derivation)));
+};
+
+/** Forgets the data key, so nothing can be read until the notebook is unlocked again. */
+export const lock = () => {
+  if (lockRecord) setLock(lockRecord, null);
+};
+
+// Rewrites every record of the encrypted stores from `from` to `to`, where
+// null means unencrypted. A cursor keeps only one record in memory at a
+// time, which matters for attachments.
+const rewriteRecords = async (tx: IDBTransaction, from: CryptoKey | null, to: CryptoKey | null) => {
+  for (const storeName of SEALED_STORES) {
+    const request = tx.objectStore(storeName).openCursor();
+    for (let cursor = await promisify(request); cursor; cursor = await promisify(request)) {
+      const record = cursor.value;
+      cursor.update(await waitFor(tx, unseal<object>(storeName, record, from).then((value) => seal(storeName, value, to))));
+      cursor.continue();
+    }
+  }
+};
+
+/** Encrypts everything stored with a new key, protected by `passphrase`, and leaves the notebook unlocked. */
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  const derivation = newKeyDerivation();
+  const wrappingKey = await deriveKey(passphrase, derivation);
+  const key = await generateDataKey();
+  const record: LockRecord = { derivation, dataKey: await wrapDataKey(key, wrappingKey) };
+  await transact([...SEALED_STORES, META], 'readwrite', async (tx) => {
+    if (await promisify(tx.objectStore(META).get(LOCK))) throw new Error('The notebook is encrypted already.');
+    await rewriteRecords(tx, null, key);
+    tx.objectStore(META).put(record, LOCK);
+  });
+  // The generated key had to be exportable to be wrapped; the one kept in memory is not.
+  setLock(record, await unwrapDataKey(record.dataKey, wrappingKey));
+};
+
+/** Protects the data key with a new passphrase; the records themselves stay as they are. */
+export const changePassphrase = async (current: string, next: string): Promise<void> => {
+  const stored = await readLockRecord();
+  if (!stored) throw new Error('The notebook is not encrypted.');
+  const key = await unwrapDataKey(stored.dataKey, await deriveKey(current, stored.derivation), true);
+  const derivation = newKeyDerivation();
+  const record: LockRecord = { derivation, dataKey: await wrapDataKey(key, await deriveKey(next, derivation)) };
+  await transact([META], 'readwrite', (tx) => {
+    tx.objectStore(META).put(record, LOCK);
+  });
+  setLock(record, dataKey);
+};
+
+/** Decrypts everything stored and turns encryption off. */
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+  const stored = await readLockRecord();
+  if (!stored) return;
+  const key = await unwrapDataKey(stored.dataKey, await deriveKey(passphrase, stored.derivation));
+  await transact([...SEALED_STORES, META], 'readwrite', async (tx) => {
+    await rewriteRecords(tx, key, null);
+    tx.objectStore(META).delete(LOCK);
+  });
+  setLock(null, null);
+};
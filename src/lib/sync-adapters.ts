@@ -0,0 +1,182 @@
+import type { NoteData, Tombstone } from './types';
+
+/** Everything the remote holds besides attachment files, as one JSON document. */
+export interface SyncDocument {
+  app: 'geo-note';
+  version: 1;
+  /** The highest note id ever handed out by any device. */
+  lastId: number;
+  notes: NoteData[];
+  tombstones: Tombstone[];
+  /** Ids of the attachment files stored next to the document. */
+  attachments: string[];
+}
+
+export interface RemoteDocument {
+  document: SyncDocument | null;
+  /** Opaque version of the document, e.g. its ETag; null if there is none yet. */
+  revision: string | null;
+}
+
+/**
+ * A place to sync with. Adapters only move bytes; deciding what changed is
+ * left to the sync engine, so a new kind of remote only needs these four.
+ */
+export interface SyncAdapter {
+  pull(): Promise<RemoteDocument>;
+  /**
+   * Writes the document if the remote is still at `revision` and resolves to
+   * its new revision. Throws a `RemoteChangedError` if another device wrote
+   * in the meantime.
+   */
+  push(document: SyncDocument, revision: string | null): Promise<string | null>;
+  /** Resolves to null if the remote has no such file. */
+  getAttachment(id: string): Promise<Blob | null>;
+  putAttachment(id: string, blob: Blob): Promise<void>;
+}
+
+export type SyncBackend = 'webdav' | 'rest';
+
+export interface SyncConfig {
+  backend: SyncBackend;
+  /** The WebDAV folder, or the base URL of the REST endpoint. */
+  url: string;
+  /** WebDAV credentials. */
+  username: string;
+  password: string;
+  /** Bearer token for the REST endpoint; may be empty. */
+  token: string;
+  /** Sync on start, after changes and every few minutes, rather than only on demand. */
+  auto: boolean;
+}
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+export class RemoteChangedError extends SyncError {
+  constructor() {
+    super('The remote was changed by another device during sync.');
+    this.name = 'RemoteChangedError';
+  }
+}
+
+const request = async (url: string, init: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, cache: 'no-store' });
+  } catch (error) {
+    throw new SyncError(`Could not reach ${new URL(url).host}: ${(error as Error).message}`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new SyncError('The sync server did not accept the credentials.');
+  }
+  if (response.status === 412) throw new RemoteChangedError();
+  return response;
+};
+
+const expectOk = (response: Response, what: string) => {
+  if (!response.ok) throw new SyncError(`Could not ${what}: the server answered ${response.status} ${response.statusText}.`);
+  return response;
+};
+
+const readDocument = async (response: Response): Promise<RemoteDocument> => {
+  if (response.status === 404) return { document: null, revision: null };
+  expectOk(response, 'read the synced notes');
+  let document: SyncDocument;
+  try {
+    document = await response.json();
+  } catch {
+    throw new SyncError('The synced notes on the server are not valid JSON.');
+  }
+  return { document, revision: response.headers.get('ETag') };
+};
+
+// A document that does not exist yet must still not exist when it is
+// created, or two devices syncing for the first time would overwrite each other.
+const preconditions = (revision: string | null): HeadersInit => revision === null ? { 'If-None-Match': '*' } : { 'If-Match': revision };
+
+// btoa only takes Latin-1, so other characters in credentials go through UTF-8 first.
+const base64 = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+const withSlash = (url: string) => url.endsWith('/') ? url : `${url}/`;
+
+/**
+ * Syncs through a folder on a WebDAV server such as Nextcloud: the document
+ * is `geo-note.json` and attachments go in a `geo-note-attachments` folder.
+ */
+export const webdavAdapter = ({ url, username, password }: Pick<SyncConfig, 'url' | 'username' | 'password'>): SyncAdapter => {
+  const folder = withSlash(url);
+  const documentUrl = `${folder}geo-note.json`;
+  const attachmentFolder = `${folder}geo-note-attachments/`;
+  const headers: HeadersInit = username ? { Authorization: `Basic ${base64(`${username}:${password}`)}` } : {};
+
+  // WebDAV does not create missing folders on PUT, so the first write to
+  // the folder or to the attachment folder creates it and tries again.
+  const put = async (url: string, folder: string, init: RequestInit) => {
+    const response = await request(url, { ...init, method: 'PUT' });
+    if (response.status !== 409 && response.status !== 404) return response;
+    const created = await request(folder, { method: 'MKCOL', headers });
+    if (!created.ok && created.status !== 405) expectOk(created, 'create a folder for sync');
+    return request(url, { ...init, method: 'PUT' });
+  };
+
+  return {
+    pull: async () => readDocument(await request(documentUrl, { headers })),
+    push: async (document, revision) => {
+      const response = expectOk(await put(documentUrl, folder, {
+        headers: { ...headers, ...preconditions(revision), 'Content-Type': 'application/json' },
+        body: JSON.stringify(document),
+      }), 'save the synced notes');
+      return response.headers.get('ETag');
+    },
+    getAttachment: async (id) => {
+      const response = await request(attachmentFolder + encodeURIComponent(id), { headers });
+      if (response.status === 404) return null;
+      return expectOk(response, 'download an attachment').blob();
+    },
+    putAttachment: async (id, blob) => {
+      expectOk(await put(attachmentFolder + encodeURIComponent(id), attachmentFolder, { headers, body: blob }), 'upload an attachment');
+    },
+  };
+};
+
+/**
+ * Syncs with any HTTP service that stores the document at `<url>/notes` and
+ * files at `<url>/attachments/<id>`, honouring `If-Match` and
+ * `If-None-Match: *` on PUT and answering 412 when they fail.
+ */
+export const restAdapter = ({ url, token }: Pick<SyncConfig, 'url' | 'token'>): SyncAdapter => {
+  const base = withSlash(url);
+  const headers: HeadersInit = token ? { Authorization: `Bearer ${token}` } : {};
+
+  return {
+    pull: async () => readDocument(await request(`${base}notes`, { headers })),
+    push: async (document, revision) => {
+      const response = expectOk(await request(`${base}notes`, {
+        method: 'PUT',
+        headers: { ...headers, ...preconditions(revision), 'Content-Type': 'application/json' },
+        body: JSON.stringify(document),
+      }), 'save the synced notes');
+      return response.headers.get('ETag');
+    },
+    getAttachment: async (id) => {
+      const response = await request(`${base}attachments/${encodeURIComponent(id)}`, { headers });
+      if (response.status === 404) return null;
+      return expectOk(response, 'download an attachment').blob();
+    },
+    putAttachment: async (id, blob) => {
+      expectOk(await request(`${base}attachments/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': blob.type || 'application/octet-stream' },
+        body: blob,
+      }), 'upload an attachment');
+    },
+  };
+};
+
+export const createAdapter = (config: SyncConfig): SyncAdapter =>
+  config.backend === 'webdav' ? webdavAdapter(config) : restAdapter(config);
@@ -0,0 +1,278 @@
+import { attachmentFromBlob } from './attachments';
+import { readJSONNote, validateNote } from './formats';
+import { sameNote } from './merge';
+import * as storage from './storage';
+import { RemoteChangedError, SyncError, type SyncAdapter, type SyncDocument } from './sync-adapters';
+import type { AttachmentData, AttachmentInfo, NoteData, Tombstone } from './types';
+
+type Version = NoteData | Tombstone;
+
+const isNote = (version: Version): version is NoteData => 'content' in version;
+
+// When a version was made: a note's last edit, or its deletion.
+const versionTime = (version: Version) => isNote(version) ? version.updated : version.deleted;
+
+const equivalent = (a: Version, b: Version) => isNote(a) && isNote(b) ? sameNote(a, b) : !isNote(a) && !isNote(b);
+
+const sameVersion = (a: Version, b: Version) => versionTime(a) === versionTime(b) && equivalent(a, b);
+
+/** A note changed both here and on another device since they last synced. */
+export interface SyncConflict {
+  id: number;
+  date: number;
+  /** This device's version, or null if the note was deleted here. */
+  local: NoteData | null;
+  /** The remote version, or null if the note was deleted there. */
+  remote: NoteData | null;
+  remoteTime: number;
+}
+
+export interface SyncPlan {
+  changes: storage.SyncChanges;
+  document: SyncDocument;
+  /** Whether the document differs from what the remote holds. */
+  push: boolean;
+  /** How many notes the remote gets from this device. */
+  sent: number;
+  conflicts: SyncConflict[];
+  /** Attachments of notes sent from here that the remote has no file for. */
+  uploads: string[];
+  /** Attachments of notes received, which may need downloading. */
+  downloads: AttachmentInfo[];
+}
+
+/**
+ * Three-way merge of this device's notes with the remote's, using the base
+ * recorded by the last sync to tell which side changed a note: a side
+ * changed it if its version is newer than the base. A note changed on one
+ * side is taken from that side; one changed on both is a conflict unless
+ * both made the same change. Nothing is written; the plan says what to.
+ */
+export const planSync = (local: storage.SyncState, remote: SyncDocument | null): SyncPlan => {
+  const remoteNotes = new Map((remote?.notes ?? []).map((note) => [note.id, note]));
+  const remoteTombstones = new Map((remote?.tombstones ?? []).map((tombstone) => [tombstone.id, tombstone]));
+  let lastId = Math.max(local.lastId, remote?.lastId ?? 0, ...local.notes.map((note) => note.id), ...remoteNotes.keys());
+
+  // Two devices may have given the same id to different notes before they
+  // synced. The remote's note keeps the id, since other devices may have it.
+  const renumbered: { from: number; to: number }[] = [];
+  const localNotes = new Map<number, NoteData>();
+  local.notes.forEach((note) => {
+    const match = remoteNotes.get(note.id);
+    if (match && match.date !== note.date) {
+      const to = ++lastId;
+      renumbered.push({ from: note.id, to });
+      localNotes.set(to, { ...note, id: to });
+    } else {
+      localNotes.set(note.id, note);
+    }
+  });
+  const localTombstones = new Map(local.tombstones.map((tombstone) => [tombstone.id, tombstone]));
+
+  const plan: SyncPlan = {
+    changes: { renumbered, put: [], deleted: [], attachments: [], lastId, base: { ...local.base, notes: {} } },
+    document: { app: 'geo-note', version: 1, lastId, notes: [], tombstones: [], attachments: remote?.attachments ?? [] },
+    push: remote === null || lastId > remote.lastId,
+    sent: 0,
+    conflicts: [],
+    uploads: [],
+    downloads: [],
+  };
+  const remoteFiles = new Set(plan.document.attachments);
+  const ids = new Set([...localNotes.keys(), ...localTombstones.keys(), ...remoteNotes.keys(), ...remoteTombstones.keys()]);
+
+  for (const id of Array.from(ids).sort((a, b) => a - b)) {
+    let mine: Version | null = localNotes.get(id) ?? localTombstones.get(id) ?? null;
+    let theirs: Version | null = remoteNotes.get(id) ?? remoteTombstones.get(id) ?? null;
+    // A tombstone only deletes the note it was made for, not a later one with the same id.
+    if (mine && theirs && mine.date !== theirs.date) {
+      if (!isNote(mine)) mine = null;
+      else if (!isNote(theirs)) theirs = null;
+    }
+    const date = (mine ?? theirs)!.date;
+    const base = local.base.notes[id]?.date === date ? local.base.notes[id] : undefined;
+    const changedHere = mine !== null && (!base || versionTime(mine) > base.time);
+    const changedThere = theirs !== null && (!base || versionTime(theirs) > base.time);
+
+    let chosen: Version;
+    if (mine && theirs && changedHere && changedThere && !equivalent(mine, theirs)) {
+      plan.conflicts.push({
+        id,
+        date,
+        local: isNote(mine) ? mine : null,
+        remote: isNote(theirs) ? theirs : null,
+        remoteTime: versionTime(theirs),
+      });
+      if (base) plan.changes.base.notes[id] = base;
+      if (isNote(theirs)) plan.document.notes.push(theirs);
+      else plan.document.tombstones.push(theirs);
+      continue;
+    }
+    if (mine && theirs && changedHere && changedThere) chosen = versionTime(mine) >= versionTime(theirs) ? mine : theirs;
+    else if (mine && (changedHere || !theirs)) chosen = mine;
+    else chosen = theirs!;
+
+    plan.changes.base.notes[id] = { date, time: versionTime(chosen) };
+    if (isNote(chosen)) plan.document.notes.push(chosen);
+    else plan.document.tombstones.push(chosen);
+
+    if (!theirs || !sameVersion(chosen, theirs)) {
+      plan.push = true;
+      plan.sent++;
+      if (isNote(chosen)) plan.uploads.push(...chosen.attachments.map(({ id }) => id).filter((id) => !remoteFiles.has(id)));
+    }
+    if (!mine || !sameVersion(chosen, mine)) {
+      if (isNote(chosen)) {
+        plan.changes.put.push({ note: chosen, replaces: mine && isNote(mine) ? mine.updated : null });
+        plan.downloads.push(...chosen.attachments);
+      } else {
+        plan.changes.deleted.push(chosen);
+      }
+    }
+  }
+  return plan;
+};
+
+// Notes from the remote are checked like an imported file; a broken one is
+// left out rather than stopping every other note from syncing.
+const readRemote = (value: SyncDocument): SyncDocument => {
+  if (typeof value !== 'object' || value === null || value.app !== 'geo-note') {
+    throw new SyncError('The file on the sync server was not written by Geo Note.');
+  }
+  if (value.version !== 1) {
+    throw new SyncError('The synced notes were written by a newer version of Geo Note. Update the app to keep syncing.');
+  }
+  const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+  return {
+    ...value,
+    lastId: isTimestamp(value.lastId) ? value.lastId : 0,
+    notes: (Array.isArray(value.notes) ? value.notes : []).filter((note) => {
+      const problem = validateNote(note);
+      if (problem) console.warn(`Skipping synced note: ${problem}`, note);
+      return problem === null;
+    }).map((note) => readJSONNote(note, () => true)),
+    tombstones: (Array.isArray(value.tombstones) ? value.tombstones : []).filter((tombstone) =>
+      typeof tombstone === 'object' && tombstone !== null &&
+      Number.isInteger(tombstone.id) && isTimestamp(tombstone.date) && isTimestamp(tombstone.deleted)),
+    attachments: (Array.isArray(value.attachments) ? value.attachments : []).filter((id) => typeof id === 'string'),
+  };
+};
+
+export interface SyncResult {
+  /** Notes written or deleted on this device. */
+  received: number;
+  sent: number;
+  renumbered: number;
+  conflicts: SyncConflict[];
+  /** Attachments whose file is on neither this device nor the remote. */
+  missingAttachments: number;
+}
+
+// Fetches the files of received attachments this device does not have yet.
+const downloadAttachments = async (adapter: SyncAdapter, infos: AttachmentInfo[]) => {
+  const stored = new Set((await storage.getAttachments(infos.map(({ id }) => id))).map(({ id }) => id));
+  const attachments: AttachmentData[] = [];
+  let missing = 0;
+  for (const info of infos) {
+    if (stored.has(info.id)) continue;
+    const blob = await adapter.getAttachment(info.id);
+    if (blob) attachments.push(await attachmentFromBlob(info, blob));
+    else missing++;
+  }
+  return { attachments, missing };
+};
+
+// Another device writing between our read and our write makes us start
+// over; past this many tries the remote is too busy and sync gives up.
+const MAX_ATTEMPTS = 3;
+
+// Notes and attachments are sent as they are, so an encrypted notebook
+// never leaves the device.
+const checkNotEncrypted = () => {
+  if (storage.currentLockState() !== 'off') {
+    throw new SyncError('Sync is not available while the notebook is encrypted.');
+  }
+};
+
+const syncOnce = async (adapter: SyncAdapter): Promise<SyncResult> => {
+  const state = await storage.getSyncState();
+  checkNotEncrypted();
+  const remote = await adapter.pull();
+  const plan = planSync(state, remote.document && readRemote(remote.document));
+  let missingAttachments = 0;
+
+  const uploaded: string[] = [];
+  for (const id of new Set(plan.uploads)) {
+    const [attachment] = await storage.getAttachments([id]);
+    if (!attachment) {
+      missingAttachments++;
+      continue;
+    }
+    await adapter.putAttachment(id, attachment.blob);
+    uploaded.push(id);
+  }
+  plan.document.attachments = Array.from(new Set([...plan.document.attachments, ...uploaded]));
+  if (plan.push) await adapter.push(plan.document, remote.revision);
+
+  const { attachments, missing } = await downloadAttachments(adapter, plan.downloads);
+  missingAttachments += missing;
+  await storage.applySyncChanges({ ...plan.changes, attachments, base: { ...plan.changes.base, syncedAt: Date.now() } });
+  return {
+    received: plan.changes.put.length + plan.changes.deleted.length,
+    sent: plan.sent,
+    renumbered: plan.changes.renumbered.length,
+    conflicts: plan.conflicts,
+    missingAttachments,
+  };
+};
+
+/** Brings this device and the remote up to date with each other. */
+export const syncNotes = async (adapter: SyncAdapter): Promise<SyncResult> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await syncOnce(adapter);
+    } catch (error) {
+      if (!(error instanceof RemoteChangedError) || attempt === MAX_ATTEMPTS) throw error;
+    }
+  }
+};
+
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+/**
+ * Settles conflicts on this device; the next sync sends the outcome to the
+ * remote. Either way the remote version counts as seen, so only a version
+ * kept from this device looks like a change to send. Keeping both leaves the
+ * remote note under its id and moves this device's version to a new one.
+ */
+export const resolveConflicts = async (adapter: SyncAdapter, resolutions: { conflict: SyncConflict; choice: ConflictChoice }[]) => {
+  const state = await storage.getSyncState();
+  checkNotEncrypted();
+  const current = new Map(state.notes.map((note) => [note.id, note]));
+  const now = Date.now();
+  const changes: storage.SyncChanges = {
+    renumbered: [],
+    put: [],
+    deleted: [],
+    attachments: [],
+    lastId: Math.max(state.lastId, ...state.notes.map((note) => note.id)),
+    base: { ...state.base, notes: { ...state.base.notes } },
+  };
+  for (const { conflict: { id, date, remote, remoteTime }, choice } of resolutions) {
+    const local = current.get(id)?.date === date ? current.get(id)! : null;
+    changes.base.notes[id] = { date, time: remoteTime };
+    if (choice === 'both' && local && remote) {
+      changes.renumbered.push({ from: id, to: ++changes.lastId });
+      changes.put.push({ note: remote, replaces: null });
+    } else if (choice === 'remote') {
+      if (remote) changes.put.push({ note: remote, replaces: local?.updated ?? null });
+      else changes.deleted.push({ id, date, deleted: now });
+    } else if (local) {
+      changes.put.push({ note: { ...local, updated: now }, replaces: local.updated });
+    } else {
+      changes.deleted.push({ id, date, deleted: now });
+    }
+  }
+  const { attachments } = await downloadAttachments(adapter, changes.put.flatMap(({ note }) => note.attachments));
+  await storage.applySyncChanges({ ...changes, attachments });
+};
@@ -0,0 +1,29 @@
+import type { NoteData } from './types';
+
+/** Tags are stored trimmed, with inner whitespace collapsed and no commas, since commas separate tags in text formats. */
+export const normalizeTag = (tag: string) => tag.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const normalizeNotebook = (notebook: string | null | undefined) => notebook?.replace(/\s+/g, ' ').trim() || null;
+
+/** Every tag used in `notes`, most used first. */
+export const collectTags = (notes: NoteData[]): string[] => {
+  const counts = new Map<string, number>();
+  notes.forEach((note) => note.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
+
+export const collectNotebooks = (notes: NoteData[]): string[] => {
+  const notebooks = new Set(notes.map((note) => note.notebook).filter((notebook): notebook is string => notebook !== null));
+  return Array.from(notebooks).sort((a, b) => a.localeCompare(b));
+};
+
+export interface TagFilter {
+  /** Notes must carry every one of these tags. */
+  tags: string[];
+  /** Only notes filed in this notebook, or null for any notebook. */
+  notebook: string | null;
+}
+
+export const matchesTagFilter = (note: NoteData, filter: TagFilter) =>
+  (filter.notebook === null || note.notebook === filter.notebook) &&
+  filter.tags.every((tag) => note.tags.includes(tag));
@@ -0,0 +1,35 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useSettings } from './settings';
+import { resolveBaseLayer } from './tiles';
+
+const darkQuery = () => window.matchMedia('(prefers-color-scheme: dark)');
+
+const subscribeSystemTheme = (listener: () => void) => {
+  const query = darkQuery();
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
+
+const systemPrefersDark = () => darkQuery().matches;
+
+/** Whether the app is dark, by the theme setting or, by default, the system's. */
+export const useDarkMode = () => {
+  const { theme } = useSettings();
+  const systemDark = useSyncExternalStore(subscribeSystemTheme, systemPrefersDark);
+  return theme === 'system' ? systemDark : theme === 'dark';
+};
+
+/** Keeps the `dark` class on the document, which the `dark:` styles key off, in line with the theme. */
+export const useThemeClass = () => {
+  const dark = useDarkMode();
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', dark);
+  }, [dark]);
+};
+
+/** The layer the map is drawn with right now. */
+export const useBaseLayer = () => {
+  const { baseLayer, customLayers, darkMap } = useSettings();
+  const dark = useDarkMode();
+  return resolveBaseLayer(baseLayer, customLayers, dark && darkMap);
+};
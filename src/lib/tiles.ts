@@ -0,0 +1,159 @@
+import type { GeoBounds } from './geo';
+
+export interface TileSource {
+  /** XYZ template with `{z}`, `{x}`, `{y}` and optionally `{s}` and `{r}` placeholders. */
+  url: string;
+  attribution: string;
+  subdomains: string;
+  maxZoom: number;
+}
+
+export interface BaseLayer extends TileSource {
+  id: string;
+  name: string;
+  /** XYZ layers fetch tiles by their coordinates, WMS layers ask a map server for a bounding box. */
+  type: 'xyz' | 'wms';
+  /** Comma-separated WMS layer names; unused by XYZ layers. */
+  layers: string;
+  /** The preset shown instead while the app is in dark mode, if there is one. */
+  darkVariant?: string;
+}
+
+const osmAttribution = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const presetLayers: BaseLayer[] = [
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    type: 'xyz',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: osmAttribution,
+    subdomains: 'abc',
+    maxZoom: 19,
+    layers: '',
+    darkVariant: 'carto-dark',
+  },
+  {
+    id: 'topo',
+    name: 'Topographic (OpenTopoMap)',
+    type: 'xyz',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: `${osmAttribution}, SRTM | Style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)`,
+    subdomains: 'abc',
+    maxZoom: 17,
+    layers: '',
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite (Esri World Imagery)',
+    type: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    subdomains: '',
+    maxZoom: 19,
+    layers: '',
+  },
+  {
+    id: 'carto-light',
+    name: 'Light (CARTO Positron)',
+    type: 'xyz',
+    url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    attribution: `${osmAttribution} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    subdomains: 'abcd',
+    maxZoom: 20,
+    layers: '',
+    darkVariant: 'carto-dark',
+  },
+  {
+    id: 'carto-dark',
+    name: 'Dark (CARTO Dark Matter)',
+    type: 'xyz',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: `${osmAttribution} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    subdomains: 'abcd',
+    maxZoom: 20,
+    layers: '',
+  },
+];
+
+export const osmTiles = presetLayers[0];
+
+/**
+ * The layer to draw: the chosen one, or its dark variant in dark mode.
+ * A custom layer that has since been deleted falls back to OpenStreetMap.
+ */
+export const resolveBaseLayer = (id: string, customLayers: BaseLayer[], dark: boolean): BaseLayer => {
+  const layer = [...presetLayers, ...customLayers].find((layer) => layer.id === id) ?? osmTiles;
+  const variant = dark && layer.darkVariant ? presetLayers.find(({ id }) => id === layer.darkVariant) : undefined;
+  return variant ?? layer;
+};
+
+/** Why a user-defined layer cannot be used, or null if it can. */
+export const validateCustomLayer = (layer: BaseLayer): string | null => {
+  if (!layer.name.trim()) return 'Give the layer a name.';
+  if (!/^https?:\/\//.test(layer.url)) return 'The URL must start with http:// or https://.';
+  if (layer.type === 'xyz' && !['{z}', '{x}', '{y}'].every((placeholder) => layer.url.includes(placeholder))) {
+    return 'An XYZ URL needs the {z}, {x} and {y} placeholders.';
+  }
+  if (layer.type === 'wms' && !layer.layers.trim()) return 'Name at least one WMS layer.';
+  return null;
+};
+
+/** Caches of tiles downloaded for offline use are named with this prefix and the area id. */
+export const OFFLINE_TILE_CACHE_PREFIX = 'offline-tiles-';
+/** Tiles cached while browsing the map, so recently seen places work offline too. */
+export const BROWSED_TILE_CACHE = 'map-tiles';
+
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Picks the subdomain and retina suffix the same way Leaflet does, so a
+// downloaded tile is cached under the very URL the map will later request.
+export const tileUrl = (source: Pick<TileSource, 'url' | 'subdomains'>, { x, y, z }: TileCoords) => source.url
+  .replace('{s}', source.subdomains[Math.abs(x + y) % source.subdomains.length] ?? '')
+  .replace('{r}', typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '')
+  .replace('{z}', String(z))
+  .replace('{x}', String(x))
+  .replace('{y}', String(y));
+
+// Web Mercator cannot show the poles.
+const MAX_LATITUDE = 85.0511287798;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const tileX = (longitude: number, zoom: number) =>
+  clamp(Math.floor((clamp(longitude, -180, 180) + 180) / 360 * 2 ** zoom), 0, 2 ** zoom - 1);
+
+const tileY = (latitude: number, zoom: number) => {
+  const radians = clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI / 180;
+  const y = (1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2 * 2 ** zoom;
+  return clamp(Math.floor(y), 0, 2 ** zoom - 1);
+};
+
+const tileRange = (bounds: GeoBounds, zoom: number) => ({
+  minX: tileX(bounds.west, zoom),
+  maxX: tileX(bounds.east, zoom),
+  minY: tileY(bounds.north, zoom),
+  maxY: tileY(bounds.south, zoom),
+});
+
+export const countTiles = (bounds: GeoBounds, minZoom: number, maxZoom: number) => {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+export function* tilesInBounds(bounds: GeoBounds, minZoom: number, maxZoom: number): Generator<TileCoords> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) yield { x, y, z };
+    }
+  }
+}
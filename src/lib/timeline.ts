@@ -0,0 +1,131 @@
+import { haversineDistance, noteLocation, type GeoPoint } from './geo';
+import type { NoteData } from './types';
+
+export type NoteSort = 'newest' | 'oldest' | 'edited' | 'nearest';
+
+export const noteSorts: { sort: NoteSort, label: string }[] = [
+  { sort: 'newest', label: 'Newest first' },
+  { sort: 'oldest', label: 'Oldest first' },
+  { sort: 'edited', label: 'Last edited' },
+  { sort: 'nearest', label: 'Nearest to the map center' },
+];
+
+/**
+ * Orders notes for the list. `origin` is the point "nearest" measures from;
+ * notes without a location come after all located ones.
+ */
+export const sortNotes = (notes: NoteData[], sort: NoteSort, origin: GeoPoint | null): NoteData[] => {
+  switch (sort) {
+    case 'newest':
+      return [...notes].sort((a, b) => b.date - a.date || b.id - a.id);
+    case 'oldest':
+      return [...notes].sort((a, b) => a.date - b.date || a.id - b.id);
+    case 'edited':
+      return [...notes].sort((a, b) => b.updated - a.updated || b.id - a.id);
+    case 'nearest': {
+      if (!origin) return notes;
+      const distances = new Map(notes.map((note) => {
+        const location = noteLocation(note);
+        return [note.id, location ? haversineDistance(origin, location) : Infinity];
+      }));
+      return [...notes].sort((a, b) => distances.get(a.id)! - distances.get(b.id)! || b.id - a.id);
+    }
+  }
+};
+
+/** The time a sort orders by, which is also what the timeline groups by. */
+export const sortTime = (note: NoteData, sort: NoteSort) => sort === 'edited' ? note.updated : note.date;
+
+export type TimeGrouping = 'none' | 'day' | 'week' | 'month';
+
+export const startOfDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+export const addDays = (time: number, days: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime();
+};
+
+// Weeks start on Monday, as in ISO 8601.
+export const startOfWeek = (time: number) => addDays(startOfDay(time), -((new Date(time).getDay() + 6) % 7));
+
+const startOfMonth = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+const periodStart = (time: number, grouping: Exclude<TimeGrouping, 'none'>) =>
+  grouping === 'day' ? startOfDay(time) : grouping === 'week' ? startOfWeek(time) : startOfMonth(time);
+
+const periodLabel = (start: number, grouping: Exclude<TimeGrouping, 'none'>) => {
+  switch (grouping) {
+    case 'day':
+      return new Date(start).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    case 'week':
+      return `Week of ${new Date(start).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}`;
+    case 'month':
+      return new Date(start).toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+  }
+};
+
+export interface TimeGroup {
+  start: number;
+  label: string;
+  notes: NoteData[];
+}
+
+/**
+ * Splits sorted notes into runs falling in the same day, week or month.
+ * Notes keep their order, so groups come out in the order of the sort.
+ */
+export const groupByTime = (notes: NoteData[], grouping: Exclude<TimeGrouping, 'none'>, sort: NoteSort): TimeGroup[] => {
+  const groups: TimeGroup[] = [];
+  notes.forEach((note) => {
+    const start = periodStart(sortTime(note, sort), grouping);
+    const last = groups[groups.length - 1];
+    if (last?.start === start) last.notes.push(note);
+    else groups.push({ start, label: periodLabel(start, grouping), notes: [note] });
+  });
+  return groups;
+};
+
+/** The days of `year` in columns of weeks, padded with days of the years around it to whole weeks. */
+export const calendarWeeks = (year: number): number[][] => {
+  const weeks: number[][] = [];
+  const end = new Date(year + 1, 0, 1).getTime();
+  for (let day = startOfWeek(new Date(year, 0, 1).getTime()); day < end; day = addDays(day, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => addDays(day, index)));
+  }
+  return weeks;
+};
+
+/** How many notes were taken on each day, keyed by the start of the day. */
+export const countByDay = (notes: NoteData[]) => {
+  const counts = new Map<number, number>();
+  notes.forEach((note) => {
+    const day = startOfDay(note.date);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  });
+  return counts;
+};
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+/** The span from the oldest to the newest note, or null without notes. */
+export const timeExtent = (notes: NoteData[]): TimeWindow | null => {
+  if (notes.length === 0) return null;
+  let start = Infinity;
+  let end = -Infinity;
+  notes.forEach(({ date }) => {
+    start = Math.min(start, date);
+    end = Math.max(end, date);
+  });
+  return { start, end };
+};
+
+export const inTimeWindow = (note: NoteData, window: TimeWindow) => note.date >= window.start && note.date <= window.end;
@@ -0,0 +1,79 @@
+import { haversineDistance } from './geo';
+import type { Track, TrackPoint } from './types';
+
+// Points closer than this to the last one are GPS noise while standing still.
+const MIN_POINT_DISTANCE = 5;
+// Anything faster than this between two points is a bad fix, not a walk.
+const MAX_SPEED = 70;
+// Altitude from GPS wobbles by a few meters; smaller changes are not counted as climbing.
+const ELEVATION_THRESHOLD = 3;
+
+export const trackPointFromPosition = ({ coords, timestamp }: GeolocationPosition): TrackPoint => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  altitude: coords.altitude !== null && Number.isFinite(coords.altitude) ? coords.altitude : null,
+  accuracy: Number.isFinite(coords.accuracy) ? coords.accuracy : null,
+  time: timestamp,
+});
+
+/**
+ * Whether a new fix belongs on the trail after `previous`: fixes worse than
+ * the accuracy threshold, fixes within their own error margin of the last
+ * point and impossible jumps are dropped.
+ */
+export const acceptTrackPoint = (previous: TrackPoint | undefined, point: TrackPoint, accuracyThreshold: number) => {
+  if (point.accuracy !== null && point.accuracy > accuracyThreshold) return false;
+  if (!previous) return true;
+  const distance = haversineDistance(previous, point);
+  if (distance < Math.max(MIN_POINT_DISTANCE, point.accuracy ?? 0)) return false;
+  const seconds = (point.time - previous.time) / 1000;
+  return seconds > 0 && distance / seconds <= MAX_SPEED;
+};
+
+export interface TrackStats {
+  /** Meters along the trail. */
+  distance: number;
+  /** Milliseconds from the start until the end, or until `now` while recording. */
+  duration: number;
+  ascent: number;
+  descent: number;
+  minAltitude: number | null;
+  maxAltitude: number | null;
+}
+
+export const trackStats = (track: Track, now = Date.now()): TrackStats => {
+  const stats: TrackStats = {
+    distance: 0,
+    duration: (track.end ?? now) - track.start,
+    ascent: 0,
+    descent: 0,
+    minAltitude: null,
+    maxAltitude: null,
+  };
+  let reference: number | null = null;
+  track.points.forEach((point, index) => {
+    if (index > 0) stats.distance += haversineDistance(track.points[index - 1], point);
+    if (point.altitude === null) return;
+    stats.minAltitude = Math.min(stats.minAltitude ?? point.altitude, point.altitude);
+    stats.maxAltitude = Math.max(stats.maxAltitude ?? point.altitude, point.altitude);
+    if (reference === null) {
+      reference = point.altitude;
+    } else if (Math.abs(point.altitude - reference) >= ELEVATION_THRESHOLD) {
+      if (point.altitude > reference) stats.ascent += point.altitude - reference;
+      else stats.descent += reference - point.altitude;
+      reference = point.altitude;
+    }
+  });
+  return stats;
+};
+
+export const formatDuration = (milliseconds: number) => {
+  const minutes = Math.floor(milliseconds / 60_000);
+  if (minutes < 60) return `${minutes} min ${Math.floor(milliseconds / 1000) % 60} s`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
+
+export const createTrack = (): Track => {
+  const start = Date.now();
+  return { id: crypto.randomUUID(), name: `Track ${new Date(start).toLocaleString()}`, start, end: null, points: [] };
+};
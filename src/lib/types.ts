@@ -0,0 +1,116 @@
+/** `pending` marks a note saved before its GPS fix arrived. */
+export type LocationSource = 'gps' | 'manual' | 'pending';
+
+export interface NoteData {
+  id: number;
+  content: string;
+  date: number;
+  /** When the note was saved or last edited; `date` may be older, e.g. when taken from a photo. */
+  updated: number;
+  latitude: number | null;
+  longitude: number | null;
+  /** How the location was obtained, or null when the note has none. */
+  locationSource: LocationSource | null;
+  /** Horizontal accuracy of a GPS fix in meters, if known. */
+  accuracy: number | null;
+  /** Meters above the WGS 84 ellipsoid. */
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  /** Direction of travel in degrees clockwise from true north. */
+  heading: number | null;
+  /** Ground speed in meters per second. */
+  speed: number | null;
+  /** Address or place name looked up for the location, or null if there is none yet. */
+  place: string | null;
+  tags: string[];
+  /** Name of the notebook the note is filed in, or null for none. */
+  notebook: string | null;
+  attachments: AttachmentInfo[];
+  /** The track that was being recorded when the note was taken, if any. */
+  trackId: string | null;
+  /** Meters around the note within which a proximity reminder fires, or null for no reminder. */
+  reminderRadius: number | null;
+}
+
+/** What a note records about an attached file; the file itself is stored apart. */
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  /** MIME type, empty when the browser could not tell. */
+  type: string;
+  size: number;
+}
+
+/** The stored contents of an attachment. */
+export interface AttachmentData {
+  id: string;
+  blob: Blob;
+  /** A small JPEG preview, for images only. */
+  thumbnail: Blob | null;
+}
+
+/** One recorded position along a track. */
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  accuracy: number | null;
+  time: number;
+}
+
+/** A trail of positions logged while walking; notes taken on the way link to it by id. */
+export interface Track {
+  id: string;
+  name: string;
+  start: number;
+  /** When recording stopped, or null while the track is still being recorded. */
+  end: number | null;
+  points: TrackPoint[];
+}
+
+export type NoteLocation = Pick<NoteData,
+  'latitude' | 'longitude' | 'locationSource' | 'accuracy' | 'altitude' | 'altitudeAccuracy' | 'heading' | 'speed'>;
+
+/** A note as it was before an edit replaced it. */
+export type NoteRevision = Pick<NoteData, 'content' | 'tags' | 'notebook'> & NoteLocation & {
+  id: number;
+  noteId: number;
+  /** When the edit that replaced this version was saved. */
+  saved: number;
+};
+
+/**
+ * Marks a note as deleted for as long as other devices may still hold it.
+ * A note is known by its id and date together, so a later note that reuses
+ * the id is not mistaken for the deleted one.
+ */
+export interface Tombstone {
+  id: number;
+  date: number;
+  deleted: number;
+}
+
+/** The version of each note both this device and the sync remote had after the last sync. */
+export interface SyncBase {
+  syncedAt: number | null;
+  /** Keyed by note id; `time` is the note's `updated`, or its tombstone's `deleted`. */
+  notes: Record<number, { date: number; time: number }>;
+}
+
+/** A deleted note, kept until the trash is emptied. */
+export interface TrashedNote extends NoteData {
+  deleted: number;
+}
+
+export const noLocation: NoteLocation = {
+  latitude: null,
+  longitude: null,
+  locationSource: null,
+  accuracy: null,
+  altitude: null,
+  altitudeAccuracy: null,
+  heading: null,
+  speed: null,
+};
+
+export const pendingLocation: NoteLocation = { ...noLocation, locationSource: 'pending' };
@@ -0,0 +1,41 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { StaleWhileRevalidate } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { BROWSED_TILE_CACHE, OFFLINE_TILE_CACHE_PREFIX } from './lib/tiles';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// The app shell: every built script, stylesheet and image, so the app starts offline.
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+
+const browsedTiles = new StaleWhileRevalidate({
+  cacheName: BROWSED_TILE_CACHE,
+  plugins: [
+    // Tile servers usually don't send CORS headers, so responses are opaque.
+    new CacheableResponsePlugin({ statuses: [0, 200] }),
+    new ExpirationPlugin({ maxEntries: 2000, maxAgeSeconds: 30 * 24 * 60 * 60, purgeOnQuotaError: true }),
+  ],
+});
+
+// Map tiles come from areas downloaded for offline use first, then from
+// the tiles cached while browsing, refreshed from the network when online.
+registerRoute(
+  ({ request, url }) => request.destination === 'image' && url.origin !== self.location.origin,
+  async (options) => {
+    for (const name of await caches.keys()) {
+      if (!name.startsWith(OFFLINE_TILE_CACHE_PREFIX)) continue;
+      const cached = await (await caches.open(name)).match(options.request);
+      if (cached) return cached;
+    }
+    return browsedTiles.handle(options);
+  },
+);
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});